@@ -1,30 +1,9 @@
-import { useEffect, useRef } from "react";
-import { initThreeScene } from "./threeScene";
+import { CityCanvas } from "./components/CityCanvas";
 import "./App.css";
 
 function App() {
-  const canvasRef = useRef<HTMLDivElement>(null);
-
-  useEffect(() => {
-    if (!canvasRef.current) return;
-
-    // Initialize Three.js scene and get cleanup function
-    const cleanup = initThreeScene(canvasRef.current, "low", false);
-
-    // Return cleanup function
-    return cleanup;
-  }, []);
-
-  return (
-    <div
-      ref={canvasRef}
-      style={{
-        width: "100vw",
-        height: "100vh",
-        overflow: "hidden",
-      }}
-    />
-  );
+  // Quality can be changed live through the quality prop
+  return <CityCanvas quality="low" editor viewInUrl />;
 }
 
 export default App;
@@ -0,0 +1,124 @@
+import {
+  type CSSProperties,
+  type ReactNode,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { type CityLayoutSource, type CityScene, initThreeScene } from "../threeScene";
+import type { AdaptiveQualityOptions } from "../lib/three/managers/adaptiveQualityController";
+import type { CityConfig, QualityLevel } from "../lib/three/types";
+import { CitySceneContext } from "../hooks/citySceneContext";
+
+/**
+ * Props of <CityCanvas>. Changing config, layout, showPerformance, editor,
+ * adaptiveQuality or viewInUrl rebuilds the scene (memoize objects passed
+ * to them); changing quality is applied live.
+ */
+export interface CityCanvasProps {
+  /** City configuration to build (default: the quality preset's city) */
+  config?: CityConfig;
+  /** JSON layout to load instead of a configuration */
+  layout?: CityLayoutSource;
+  quality?: QualityLevel;
+  /** Show the performance monitoring tools */
+  showPerformance?: boolean;
+  /** Allow toggling the building editor with the 'B' key */
+  editor?: boolean;
+  adaptiveQuality?: boolean | AdaptiveQualityOptions;
+  /** Keep the camera view in the URL hash so links reopen the same viewpoint */
+  viewInUrl?: boolean;
+  /** Called once the city is built */
+  onReady?: (scene: CityScene) => void;
+  /** Called when loading fails */
+  onError?: (message: string, error?: unknown) => void;
+  className?: string;
+  style?: CSSProperties;
+  /** UI rendered over the canvas, with access to the scene hooks */
+  children?: ReactNode;
+}
+
+/**
+ * Renders the city scene and provides it to useCityScene, useBuildings and
+ * usePerformanceMetrics in its children
+ */
+export function CityCanvas({
+  config,
+  layout,
+  quality,
+  showPerformance = false,
+  editor = false,
+  adaptiveQuality = false,
+  viewInUrl = false,
+  onReady,
+  onError,
+  className,
+  style,
+  children,
+}: CityCanvasProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scene, setScene] = useState<CityScene | null>(null);
+  const [ready, setReady] = useState(false);
+
+  // Latest callbacks and quality, read without rebuilding the scene
+  const callbacksRef = useRef({ onReady, onError });
+  callbacksRef.current = { onReady, onError };
+  const qualityRef = useRef(quality);
+  qualityRef.current = quality;
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const city = initThreeScene(containerRef.current, {
+      config,
+      layout,
+      quality: qualityRef.current,
+      performanceMonitoring: showPerformance,
+      editor,
+      adaptiveQuality,
+      viewInUrl,
+    });
+    const removeReadyListener = city.on("ready", () => {
+      setReady(true);
+      callbacksRef.current.onReady?.(city);
+    });
+    const removeErrorListener = city.on("error", ({ message, error }) =>
+      callbacksRef.current.onError?.(message, error)
+    );
+    setScene(city);
+
+    return () => {
+      removeReadyListener();
+      removeErrorListener();
+      city.dispose();
+      setScene(null);
+      setReady(false);
+    };
+  }, [config, layout, showPerformance, editor, adaptiveQuality, viewInUrl]);
+
+  // Quality changes don't rebuild the city
+  useEffect(() => {
+    if (scene && quality && scene.getQuality() !== quality) {
+      void scene.setQuality(quality);
+    }
+  }, [scene, quality]);
+
+  return (
+    <CitySceneContext.Provider value={{ scene, ready }}>
+      <div
+        className={className}
+        style={{
+          position: "relative",
+          width: "100vw",
+          height: "100vh",
+          overflow: "hidden",
+          ...style,
+        }}
+      >
+        {/* The renderer canvas goes in its own layer so children stay on top */}
+        <div ref={containerRef} style={{ position: "absolute", inset: 0 }} />
+        {children}
+      </div>
+    </CitySceneContext.Provider>
+  );
+}
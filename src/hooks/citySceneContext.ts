@@ -0,0 +1,19 @@
+import { createContext } from "react";
+import type { CityScene } from "../threeScene";
+
+/**
+ * The city scene provided by <CityCanvas>
+ */
+export interface CitySceneContextValue {
+  /** The running scene, or null before it is created */
+  scene: CityScene | null;
+  /** Whether the city is built and the environment set up */
+  ready: boolean;
+}
+
+/**
+ * Context set by <CityCanvas>; undefined outside of it
+ */
+export const CitySceneContext = createContext<CitySceneContextValue | undefined>(
+  undefined
+);
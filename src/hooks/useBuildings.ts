@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  BuildingFilter,
+  BuildingPatch,
+  PlacedBuilding,
+} from "../lib/three/builders/cityBuilder";
+import type { BuildingPlacement } from "../lib/three/types";
+import { useCityScene } from "./useCityScene";
+
+/**
+ * Buildings of the city and functions to edit them
+ */
+export interface UseBuildingsResult {
+  /** Matching buildings in placement order, updated on every change */
+  buildings: PlacedBuilding[];
+  /** Adds a building; returns false if it could not be placed */
+  addBuilding: (placement: BuildingPlacement) => Promise<boolean>;
+  /** Changes a building; returns false if it was not found */
+  updateBuilding: (id: string, patch: BuildingPatch) => Promise<boolean>;
+  /** Removes a building; returns false if it was not found */
+  removeBuilding: (id: string) => Promise<boolean>;
+}
+
+/** Placement fields a transformBuilding command covers */
+const TRANSFORM_KEYS = ["position", "rotation", "scale"];
+
+/**
+ * Lists the city's buildings and re-renders when they change. Edits go
+ * through the undo/redo history when the editor is enabled.
+ * @param filter Optional filter criteria (see CityBuilder.listBuildings);
+ * a changed predicate alone does not re-list until the city changes
+ * @returns The buildings and edit functions
+ */
+export const useBuildings = (filter?: BuildingFilter): UseBuildingsResult => {
+  const { scene, ready } = useCityScene();
+  const [buildings, setBuildings] = useState<PlacedBuilding[]>([]);
+
+  // Re-list when the filter criteria change, not on every new filter object.
+  // The predicate is read through the ref so an inline function does not
+  // re-run the effect on every render; it takes effect on the next change.
+  const filterRef = useRef(filter);
+  filterRef.current = filter;
+  const filterKey = JSON.stringify([
+    filter?.tags,
+    filter?.modelPath,
+    filter?.name?.toString(),
+  ]);
+
+  useEffect(() => {
+    if (!scene || !ready) {
+      setBuildings([]);
+      return;
+    }
+
+    const refresh = () =>
+      setBuildings(scene.cityBuilder.listBuildings(filterRef.current));
+    refresh();
+    return scene.cityBuilder.onChange(refresh);
+  }, [scene, ready, filterKey]);
+
+  const addBuilding = useCallback(
+    async (placement: BuildingPlacement) => {
+      if (!scene) return false;
+      if (scene.history) {
+        return scene.history.execute({ type: "addBuilding", placement });
+      }
+      return (await scene.cityBuilder.addBuilding(placement)) !== null;
+    },
+    [scene]
+  );
+
+  const updateBuilding = useCallback(
+    async (id: string, patch: BuildingPatch) => {
+      if (!scene) return false;
+      const { cityBuilder, history } = scene;
+      const building = cityBuilder.getBuilding(id);
+      if (!building) return false;
+
+      // Nothing to change, and nothing to record in the history
+      const keys = Object.keys(patch);
+      if (keys.length === 0) return true;
+
+      // Transforms and textures are undoable, other changes are applied directly
+      const { placement } = building;
+      if (history && keys.every((key) => TRANSFORM_KEYS.includes(key))) {
+        return history.execute({
+          type: "transformBuilding",
+          id,
+          before: {
+            position: placement.position,
+            rotation: placement.rotation,
+            scale: placement.scale,
+          },
+          after: {
+            position: patch.position ?? placement.position,
+            rotation: patch.rotation ?? placement.rotation,
+            scale: patch.scale ?? placement.scale,
+          },
+        });
+      }
+      if (history && keys.length === 1 && keys[0] === "textures") {
+        return history.execute({
+          type: "retextureBuilding",
+          id,
+          before: placement.textures,
+          after: patch.textures,
+        });
+      }
+      return (await cityBuilder.updateBuilding(id, patch)) !== null;
+    },
+    [scene]
+  );
+
+  const removeBuilding = useCallback(
+    async (id: string) => {
+      if (!scene) return false;
+      const { cityBuilder, history } = scene;
+      const building = cityBuilder.getBuilding(id);
+      if (!building) return false;
+
+      if (history) {
+        const index = cityBuilder
+          .getConfig()
+          ?.buildings.findIndex((b) => b.id === id);
+        return history.execute({
+          type: "removeBuilding",
+          placement: building.placement,
+          index,
+        });
+      }
+      return cityBuilder.removeBuilding(id);
+    },
+    [scene]
+  );
+
+  return { buildings, addBuilding, updateBuilding, removeBuilding };
+};
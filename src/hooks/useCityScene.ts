@@ -0,0 +1,14 @@
+import { useContext } from "react";
+import { CitySceneContext, type CitySceneContextValue } from "./citySceneContext";
+
+/**
+ * Gets the city scene of the enclosing <CityCanvas>
+ * @returns The scene (null until created) and whether it is ready
+ */
+export const useCityScene = (): CitySceneContextValue => {
+  const context = useContext(CitySceneContext);
+  if (!context) {
+    throw new Error("useCityScene must be used inside <CityCanvas>");
+  }
+  return context;
+};
@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import type { PerformanceMetrics } from "../lib/three/managers/performanceMonitor";
+import { useCityScene } from "./useCityScene";
+
+/**
+ * Samples the scene's performance metrics at an interval. Needs the
+ * performance tools (the showPerformance prop of <CityCanvas>).
+ * @param intervalMs Time between samples in milliseconds (default: 500)
+ * @returns The latest metrics, with fps and frame time over the last second,
+ * or null while no performance monitor is running
+ */
+export const usePerformanceMetrics = (
+  intervalMs = 500
+): PerformanceMetrics | null => {
+  const { scene } = useCityScene();
+  const [metrics, setMetrics] = useState<PerformanceMetrics | null>(null);
+
+  useEffect(() => {
+    const monitor = scene?.performanceTest?.perfMonitor;
+    if (!monitor) {
+      setMetrics(null);
+      return;
+    }
+
+    const sample = () =>
+      setMetrics({
+        ...monitor.getMetrics(),
+        fps: Math.round(monitor.getRollingFps() * 10) / 10,
+        frameTime: monitor.getRollingFrameTime(),
+      });
+    sample();
+    const interval = window.setInterval(sample, intervalMs);
+    return () => window.clearInterval(interval);
+  }, [scene, intervalMs]);
+
+  return metrics;
+};
@@ -1,17 +1,145 @@
 import * as THREE from "three";
 import { assetManager } from "../managers/assetManager";
-import type { CityConfig, BuildingTexture } from "../types";
+import { InstancedBuildingBatch, getBatchKey } from "./instancedBuildingBatch";
+import { generateProceduralBuilding } from "./proceduralBuilding";
+import { EventEmitter } from "../utils/eventEmitter";
+import {
+  computeLocalBounds,
+  computeObjectFootprint,
+  testFootprintOverlap,
+  type OrientedFootprint,
+} from "../utils/footprint";
+import type {
+  CityConfig,
+  BuildingPlacement,
+  BuildingTexture,
+  TextureOptimizationConfig,
+} from "../types";
+
+/**
+ * A building registered with the city builder
+ */
+export interface PlacedBuilding {
+  /** The placement as stored in the builder's in-memory city configuration */
+  placement: BuildingPlacement;
+  /** The object in the scene, or null if the model failed to load */
+  object: THREE.Object3D | null;
+}
+
+/**
+ * Filter for CityBuilder.listBuildings - all given criteria must match
+ */
+export interface BuildingFilter {
+  /** Only buildings carrying every one of these tags */
+  tags?: string[];
+  modelPath?: string;
+  /** Exact name, or a pattern tested against the name */
+  name?: string | RegExp;
+  predicate?: (building: PlacedBuilding) => boolean;
+}
+
+/**
+ * World-space rectangle a building covers on the ground plane
+ */
+export interface BuildingFootprint {
+  id: string;
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+/**
+ * A building whose footprint intersects another building or a road
+ */
+export interface BuildingOverlap {
+  /** The overlapping building */
+  id: string;
+  /** What it overlaps */
+  kind: "building" | "road";
+  /** Id of the other building or the road */
+  otherId: string;
+  /** Overlap in meters along the direction */
+  depth: number;
+  /** Unit direction [x, z] that moves the building out of the overlap */
+  direction: [number, number];
+}
+
+/**
+ * Native size of a model next to what the city makes of it
+ */
+export interface ModelAssetReport {
+  modelPath: string;
+  /** Size as authored [x, y, z], in the model's own units */
+  nativeSize: [number, number, number];
+  /** Ids of the buildings using the model */
+  buildingIds: string[];
+  /** Heights of those buildings in the scene, in meters */
+  placedHeights: number[];
+  /** Set when the native size suggests the model isn't in meters */
+  warning?: string;
+}
+
+/**
+ * Native heights outside this range (in meters) are reported as likely unit
+ * mistakes: a unit-sized model, or one authored in centimeters
+ */
+const PLAUSIBLE_MODEL_HEIGHT: [number, number] = [2, 1000];
+
+/**
+ * Height of the ground at a point, for snapping buildings to terrain
+ */
+export type GroundHeightSampler = (x: number, z: number) => number;
+
+/**
+ * Changes to apply to a building with CityBuilder.updateBuilding
+ */
+export type BuildingPatch = Partial<Omit<BuildingPlacement, "id">>;
+
+/**
+ * Events emitted by the city builder, with their payloads
+ */
+interface CityBuilderEvents {
+  buildingAdded: PlacedBuilding;
+  change: undefined;
+}
 
 /**
  * City Builder class for creating and placing buildings
  */
 export class CityBuilder {
   private scene: THREE.Scene;
+  private config: CityConfig | null = null;
+  private buildings = new Map<string, PlacedBuilding>();
+  private batches = new Map<string, InstancedBuildingBatch>();
+  private events = new EventEmitter<CityBuilderEvents>();
+  private roadFootprints: OrientedFootprint[] = [];
+  private groundHeight: GroundHeightSampler = () => 0;
 
   constructor(scene: THREE.Scene) {
     this.scene = scene;
   }
 
+  /**
+   * Subscribes to buildings being added, by buildCity or addBuilding
+   * (buildings reloaded after an update are not reported again)
+   * @param listener Called with each added building
+   * @returns Function that removes the listener
+   */
+  onBuildingAdded(listener: (building: PlacedBuilding) => void): () => void {
+    return this.events.on("buildingAdded", listener);
+  }
+
+  /**
+   * Subscribes to any change of the building registry: buildings built,
+   * added, removed, updated or reloaded
+   * @param listener Called after each change
+   * @returns Function that removes the listener
+   */
+  onChange(listener: () => void): () => void {
+    return this.events.on("change", listener);
+  }
+
   /**
    * Places a 3D model in the scene with specified position, scale, and rotation
    * @param model The 3D model to place
@@ -64,7 +192,7 @@ export class CityBuilder {
     scale: [number, number, number] = [1, 1, 1],
     rotation: [number, number, number] = [0, 0, 0],
     textures?: BuildingTexture[],
-    optimizationConfig?: any
+    optimizationConfig?: TextureOptimizationConfig
   ): Promise<THREE.Object3D | null> {
     try {
       // Load the model
@@ -74,8 +202,10 @@ export class CityBuilder {
         return null;
       }
 
-      // Apply textures if provided
+      // Apply textures if provided (on per-model material copies, since
+      // clones from the asset cache share their materials)
       if (textures && textures.length > 0) {
+        this.cloneMaterials(model);
         await this.applyTexturesToModel(model, textures, optimizationConfig);
       }
 
@@ -87,6 +217,923 @@ export class CityBuilder {
     }
   }
 
+  /**
+   * Replaces every material of a model with its own copy
+   * @param model The model whose materials should be cloned
+   */
+  private cloneMaterials(model: THREE.Object3D): void {
+    model.traverse((node) => {
+      if (node instanceof THREE.Mesh && node.material) {
+        node.material = Array.isArray(node.material)
+          ? node.material.map((material) => material.clone())
+          : node.material.clone();
+      }
+    });
+  }
+
+  /**
+   * Loads a building's model, or generates it for procedural placements,
+   * with the placement's textures applied
+   * @param placement The building placement
+   * @returns Promise resolving to the model (not yet placed) or null if loading failed
+   */
+  private async loadBuildingModel(
+    placement: BuildingPlacement
+  ): Promise<THREE.Object3D | null> {
+    let model: THREE.Object3D | null;
+    if (placement.procedural) {
+      // Generated materials already belong to this building
+      model = generateProceduralBuilding(placement.procedural);
+    } else if (placement.modelPath) {
+      model = await assetManager.loadModel(placement.modelPath);
+      if (!model) {
+        console.error(`Failed to load model: ${placement.modelPath}`);
+        return null;
+      }
+      if (placement.textures && placement.textures.length > 0) {
+        this.cloneMaterials(model);
+      }
+    } else {
+      console.error(
+        `Building "${placement.id}" has neither a modelPath nor a procedural spec`
+      );
+      return null;
+    }
+
+    if (placement.textures && placement.textures.length > 0) {
+      await this.applyTexturesToModel(
+        model,
+        placement.textures,
+        this.config?.textureOptimization
+      );
+    }
+    return model;
+  }
+
+  /**
+   * Loads or generates a building and places it in the scene
+   * @param placement The building placement
+   * @returns Promise resolving to the placed model or null if loading failed
+   */
+  private async loadAndPlaceBuilding(
+    placement: BuildingPlacement
+  ): Promise<THREE.Object3D | null> {
+    try {
+      const model = await this.loadBuildingModel(placement);
+      return model
+        ? this.placeModel(model, placement.position, placement.scale, placement.rotation)
+        : null;
+    } catch (error) {
+      console.error(`Error loading and placing building "${placement.id}":`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Loads and places a building and registers it under its id
+   * @param placement The building placement
+   * @returns Promise resolving to the registered building
+   */
+  private async placeBuilding(
+    placement: BuildingPlacement
+  ): Promise<PlacedBuilding> {
+    const batch = placement.lod
+      ? undefined
+      : this.batches.get(getBatchKey(placement));
+    const object = batch
+      ? this.placeInstance(batch, placement)
+      : placement.lod
+      ? await this.loadAndPlaceLod(placement)
+      : await this.loadAndPlaceBuilding(placement);
+
+    if (object) {
+      object.name = placement.name ?? placement.id;
+      object.userData.type = "building";
+      object.userData.buildingId = placement.id;
+      this.alignBuilding(object, placement);
+      batch?.update(placement.id);
+    }
+
+    const building: PlacedBuilding = { placement, object };
+    this.buildings.set(placement.id, building);
+    return building;
+  }
+
+  /**
+   * Loads (or generates) a building's full-detail model and loads its
+   * lower-detail models, then places them
+   * as a THREE.LOD, with an optional box impostor as the farthest level
+   * @param placement The building placement (with lod settings)
+   * @returns Promise resolving to the LOD object or null if the full-detail model failed to load
+   */
+  private async loadAndPlaceLod(
+    placement: BuildingPlacement
+  ): Promise<THREE.Object3D | null> {
+    const lodConfig = placement.lod ?? {};
+    const levels = [...(lodConfig.levels ?? [])].sort(
+      (a, b) => a.distance - b.distance
+    );
+
+    try {
+      const loadLevel = async (modelPath: string) => {
+        const model = await assetManager.loadModel(modelPath);
+        if (model && placement.textures && placement.textures.length > 0) {
+          this.cloneMaterials(model);
+          await this.applyTexturesToModel(
+            model,
+            placement.textures,
+            this.config?.textureOptimization
+          );
+        }
+        return model;
+      };
+
+      const [model, ...levelModels] = await Promise.all([
+        this.loadBuildingModel(placement),
+        ...levels.map((level) => loadLevel(level.modelPath)),
+      ]);
+      if (!model) return null;
+
+      const lod = new THREE.LOD();
+      lod.addLevel(model, 0);
+
+      levels.forEach((level, index) => {
+        const levelModel = levelModels[index];
+        if (levelModel) {
+          lod.addLevel(levelModel, level.distance);
+        } else {
+          console.warn(
+            `Skipping LOD level ${level.modelPath} of building "${placement.id}": failed to load`
+          );
+        }
+      });
+
+      if (lodConfig.impostorDistance !== undefined) {
+        lod.addLevel(
+          this.createImpostor(model, lodConfig.impostorColor),
+          lodConfig.impostorDistance
+        );
+      }
+
+      return this.placeModel(
+        lod,
+        placement.position,
+        placement.scale,
+        placement.rotation
+      );
+    } catch (error) {
+      console.error(`Error loading LOD levels for building "${placement.id}":`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Creates a box matching a model's bounds, used as the farthest LOD level
+   * @param model The full-detail model
+   * @param color Optional color, defaults to the color of the model's first material
+   * @returns The impostor mesh
+   */
+  private createImpostor(model: THREE.Object3D, color?: number): THREE.Mesh {
+    model.updateMatrixWorld(true);
+    const bounds = new THREE.Box3().setFromObject(model);
+    const size = bounds.getSize(new THREE.Vector3());
+    const center = bounds.getCenter(new THREE.Vector3());
+
+    let impostorColor = color;
+    if (impostorColor === undefined) {
+      model.traverse((node) => {
+        if (impostorColor !== undefined || !(node instanceof THREE.Mesh)) return;
+        const material = Array.isArray(node.material)
+          ? node.material[0]
+          : node.material;
+        if (material && "color" in material && material.color instanceof THREE.Color) {
+          impostorColor = material.color.getHex();
+        }
+      });
+    }
+
+    const geometry = new THREE.BoxGeometry(size.x, size.y, size.z);
+    geometry.translate(center.x, center.y, center.z);
+
+    const impostor = new THREE.Mesh(
+      geometry,
+      new THREE.MeshStandardMaterial({
+        color: impostorColor ?? 0x666666,
+        roughness: 0.8,
+      })
+    );
+    impostor.name = "lod-impostor";
+    impostor.userData.lodImpostor = true;
+    return impostor;
+  }
+
+  /**
+   * Adds a building to an instanced batch
+   * @param batch The batch sharing the building's model and textures
+   * @param placement The building placement
+   * @returns The proxy object representing the building in the scene
+   */
+  private placeInstance(
+    batch: InstancedBuildingBatch,
+    placement: BuildingPlacement
+  ): THREE.Object3D {
+    const proxy = batch.add(placement.id);
+    proxy.position.set(...placement.position);
+    proxy.scale.set(...placement.scale);
+    proxy.rotation.set(...placement.rotation);
+    this.scene.add(proxy);
+    batch.update(placement.id);
+    return proxy;
+  }
+
+  /**
+   * Loads the shared model for a batch and adds the batch to the scene
+   * @param placement A placement using the batch's model and textures
+   * @param capacity Expected number of buildings in the batch
+   * @returns Promise resolving to the batch or null if the model failed to load
+   */
+  private async createBatch(
+    placement: BuildingPlacement,
+    capacity: number
+  ): Promise<InstancedBuildingBatch | null> {
+    try {
+      const model = await this.loadBuildingModel(placement);
+      if (!model) return null;
+
+      // Textured models have their own material copies and generated
+      // buildings their own geometry as well
+      const procedural = !!placement.procedural;
+      const textured = !!placement.textures && placement.textures.length > 0;
+      const key = getBatchKey(placement);
+      const batch = new InstancedBuildingBatch(
+        key,
+        model,
+        textured || procedural,
+        capacity,
+        procedural
+      );
+      this.batches.set(key, batch);
+      this.scene.add(batch.group);
+      return batch;
+    } catch (error) {
+      console.error(
+        `Error creating instanced batch for ${placement.modelPath ?? `building "${placement.id}"`}:`,
+        error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Finds the batch a building is rendered by
+   * @param id The building id
+   * @returns The batch or undefined if the building is placed individually
+   */
+  private findBatch(id: string): InstancedBuildingBatch | undefined {
+    for (const batch of this.batches.values()) {
+      if (batch.has(id)) return batch;
+    }
+    return undefined;
+  }
+
+  /**
+   * Removes a building's object from the scene and frees its own materials
+   * @param building The building to detach
+   */
+  private detachBuilding(building: PlacedBuilding): void {
+    if (!building.object) return;
+
+    // Instanced buildings only give up their slot, the batch owns the materials
+    const batch = this.findBatch(building.placement.id);
+    if (batch) {
+      batch.remove(building.placement.id);
+      return;
+    }
+
+    this.scene.remove(building.object);
+
+    // Only textured buildings own their materials, the rest share them with
+    // the asset cache; LOD impostors and procedural buildings are always
+    // generated per building
+    const textured =
+      !!building.placement.textures && building.placement.textures.length > 0;
+    building.object.traverse((node) => {
+      if (!(node instanceof THREE.Mesh) || !node.material) return;
+
+      if (node.userData.lodImpostor || node.userData.procedural) {
+        node.geometry.dispose();
+      } else if (!textured) {
+        return;
+      }
+
+      const materials = Array.isArray(node.material)
+        ? node.material
+        : [node.material];
+      materials.forEach((material) => material.dispose());
+    });
+  }
+
+  /**
+   * Replaces a placement in the in-memory city configuration
+   * @param placement The new placement (matched by id)
+   */
+  private storePlacement(placement: BuildingPlacement): void {
+    if (!this.config) return;
+
+    const index = this.config.buildings.findIndex((b) => b.id === placement.id);
+    if (index === -1) {
+      this.config.buildings.push(placement);
+    } else {
+      this.config.buildings[index] = placement;
+    }
+  }
+
+  /**
+   * Gets the in-memory city configuration, including all edits made through the registry
+   * @returns The current city configuration or null if no city was built
+   */
+  getConfig(): CityConfig | null {
+    return this.config;
+  }
+
+  /**
+   * Gets a building by id
+   * @param id The building id
+   * @returns The building or undefined if not found
+   */
+  getBuilding(id: string): PlacedBuilding | undefined {
+    return this.buildings.get(id);
+  }
+
+  /**
+   * Lists buildings, optionally filtered
+   * @param filter Optional filter criteria
+   * @returns Matching buildings in placement order
+   */
+  listBuildings(filter: BuildingFilter = {}): PlacedBuilding[] {
+    return Array.from(this.buildings.values()).filter((building) => {
+      const { placement } = building;
+
+      if (filter.modelPath && placement.modelPath !== filter.modelPath) {
+        return false;
+      }
+
+      if (filter.tags && !filter.tags.every((tag) => placement.tags?.includes(tag))) {
+        return false;
+      }
+
+      if (filter.name !== undefined) {
+        const name = placement.name ?? "";
+        const matches =
+          typeof filter.name === "string"
+            ? name === filter.name
+            : filter.name.test(name);
+        if (!matches) return false;
+      }
+
+      return filter.predicate ? filter.predicate(building) : true;
+    });
+  }
+
+  /**
+   * Gets the objects to raycast against when picking buildings: the roots of
+   * individually placed buildings and the instanced meshes of batches
+   * @returns The pickable objects (intersect them recursively)
+   */
+  getPickableObjects(): THREE.Object3D[] {
+    const objects: THREE.Object3D[] = [];
+
+    this.buildings.forEach((building) => {
+      if (building.object) objects.push(building.object);
+    });
+    this.batches.forEach((batch) => objects.push(batch.group));
+
+    return objects;
+  }
+
+  /**
+   * Resolves a raycast intersection to the building that was hit
+   * @param intersection An intersection with one of getPickableObjects()
+   * @returns The building id or null if the hit object is not a building
+   */
+  getBuildingIdFromIntersection(intersection: THREE.Intersection): string | null {
+    const batchKey = intersection.object.userData.batchKey as string | undefined;
+    if (batchKey !== undefined && intersection.instanceId !== undefined) {
+      return this.batches.get(batchKey)?.getBuildingId(intersection.instanceId) ?? null;
+    }
+
+    // Walk up to the building root, which carries the id
+    let node: THREE.Object3D | null = intersection.object;
+    while (node && node.userData.buildingId === undefined) {
+      node = node.parent;
+    }
+    return node ? (node.userData.buildingId as string) : null;
+  }
+
+  /**
+   * Re-applies a building object's current transform to its instance.
+   * Needed after moving the object of an instanced building directly (e.g.
+   * with a gizmo); does nothing for individually placed buildings.
+   * @param id The building id
+   */
+  syncBuildingTransform(id: string): void {
+    this.findBatch(id)?.update(id);
+  }
+
+  /**
+   * Adds a new building to the city. It joins an existing instanced batch if
+   * one uses the same model and textures (and it has no LOD settings),
+   * otherwise it is placed individually.
+   * @param placement The building placement (its id must not be in use)
+   * @param index Optional position in the building list (appended by default)
+   * @returns Promise resolving to the registered building or null if it could not be added
+   */
+  async addBuilding(
+    placement: BuildingPlacement,
+    index?: number
+  ): Promise<PlacedBuilding | null> {
+    if (!this.config) {
+      console.error("Cannot add a building before a city has been built");
+      return null;
+    }
+
+    if (this.buildings.has(placement.id)) {
+      console.error(`A building with id "${placement.id}" already exists`);
+      return null;
+    }
+
+    if (index !== undefined && index >= 0 && index < this.config.buildings.length) {
+      this.config.buildings.splice(index, 0, placement);
+    } else {
+      this.config.buildings.push(placement);
+    }
+
+    const building = await this.placeBuilding(placement);
+    this.events.emit("buildingAdded", building);
+    this.events.emit("change", undefined);
+    return building;
+  }
+
+  /**
+   * Removes a building from the scene and the city configuration
+   * @param id The building id
+   * @returns True if the building was removed
+   */
+  removeBuilding(id: string): boolean {
+    const building = this.buildings.get(id);
+    if (!building) {
+      console.warn(`Cannot remove unknown building "${id}"`);
+      return false;
+    }
+
+    this.detachBuilding(building);
+    this.buildings.delete(id);
+
+    if (this.config) {
+      this.config.buildings = this.config.buildings.filter((b) => b.id !== id);
+    }
+    this.events.emit("change", undefined);
+
+    return true;
+  }
+
+  /**
+   * Updates a building and re-applies the changes to the live scene.
+   * Transform changes are applied in place; model or texture changes reload the building.
+   * @param id The building id
+   * @param patch The placement fields to change
+   * @returns Promise resolving to the updated building or null if it was not found
+   */
+  async updateBuilding(
+    id: string,
+    patch: BuildingPatch
+  ): Promise<PlacedBuilding | null> {
+    const building = this.buildings.get(id);
+    if (!building) {
+      console.warn(`Cannot update unknown building "${id}"`);
+      return null;
+    }
+
+    const previous = building.placement;
+    const placement: BuildingPlacement = { ...previous, ...patch, id };
+    this.storePlacement(placement);
+
+    const needsReload =
+      placement.modelPath !== previous.modelPath ||
+      JSON.stringify(placement.procedural) !== JSON.stringify(previous.procedural) ||
+      JSON.stringify(placement.textures) !== JSON.stringify(previous.textures) ||
+      JSON.stringify(placement.lod) !== JSON.stringify(previous.lod) ||
+      !building.object;
+
+    if (needsReload) {
+      this.detachBuilding(building);
+      const reloaded = await this.placeBuilding(placement);
+      this.events.emit("change", undefined);
+      return reloaded;
+    }
+
+    const object = building.object!;
+    object.position.set(...placement.position);
+    object.scale.set(...placement.scale);
+    object.rotation.set(...placement.rotation);
+    object.name = placement.name ?? placement.id;
+    this.alignBuilding(object, placement);
+    this.syncBuildingTransform(id);
+
+    building.placement = placement;
+    this.events.emit("change", undefined);
+    return building;
+  }
+
+  /**
+   * Sets the terrain height buildings snapped to the ground rest on, and
+   * re-snaps them
+   * @param sampler Ground height at a point (default: flat ground at y=0)
+   */
+  setGroundHeight(sampler: GroundHeightSampler = () => 0): void {
+    this.groundHeight = sampler;
+    this.buildings.forEach((building) => {
+      if (building.object && this.isSnapped(building.placement)) {
+        this.resetBuildingTransform(building.placement.id);
+      }
+    });
+  }
+
+  /**
+   * Moves a building's object back to the transform stored in its placement,
+   * e.g. after the editor refused a move
+   * @param id The building id
+   */
+  resetBuildingTransform(id: string): void {
+    const building = this.buildings.get(id);
+    const object = building?.object;
+    if (!building || !object) return;
+
+    object.position.set(...building.placement.position);
+    object.scale.set(...building.placement.scale);
+    object.rotation.set(...building.placement.rotation);
+    this.alignBuilding(object, building.placement);
+    this.syncBuildingTransform(id);
+  }
+
+  /**
+   * Gets the placement transform that puts a building where its object
+   * currently is, taking its anchor, ground snapping and target size into
+   * account (the inverse of the alignment applied when it was placed)
+   * @param id The building id
+   * @returns The transform, or null if the building is unknown or not loaded
+   */
+  getPlacementTransform(
+    id: string
+  ): Pick<BuildingPlacement, "position" | "rotation" | "scale"> | null {
+    const building = this.buildings.get(id);
+    const object = building?.object;
+    if (!building || !object) return null;
+
+    const { anchor, base } = this.measureAnchor(object, building.placement);
+    const fit = this.getFitScale(object, building.placement);
+    return {
+      position: [
+        anchor.x,
+        this.isSnapped(building.placement)
+          ? base - this.groundHeight(anchor.x, anchor.z)
+          : anchor.y,
+        anchor.z,
+      ],
+      rotation: [object.rotation.x, object.rotation.y, object.rotation.z],
+      scale: [object.scale.x / fit, object.scale.y / fit, object.scale.z / fit],
+    };
+  }
+
+  /**
+   * Whether a building rests on the ground rather than at its position's height
+   */
+  private isSnapped(placement: BuildingPlacement): boolean {
+    return placement.snapToGround ?? this.config?.snapToGround ?? false;
+  }
+
+  /**
+   * Computes the uniform scale that brings a model to its placement's target
+   * height and footprint, whichever is smaller
+   * @param object The building's object
+   * @param placement The placement with the targets
+   * @returns The scale factor, 1 without targets
+   */
+  private getFitScale(object: THREE.Object3D, placement: BuildingPlacement): number {
+    const { targetHeight, targetFootprint } = placement;
+    if (targetHeight === undefined && targetFootprint === undefined) return 1;
+
+    // Native size, whatever the object is currently scaled to
+    const size = computeLocalBounds(object).getSize(new THREE.Vector3());
+    const factors: number[] = [];
+    if (targetHeight !== undefined && size.y > 0) {
+      factors.push(targetHeight / size.y);
+    }
+    if (targetFootprint !== undefined) {
+      if (size.x > 0) factors.push(targetFootprint[0] / size.x);
+      if (size.z > 0) factors.push(targetFootprint[1] / size.z);
+    }
+    return factors.length > 0 ? Math.min(...factors) : 1;
+  }
+
+  /**
+   * Measures where a placed object's anchor point and base are
+   * @param object The building's object, with its current transform
+   * @param placement The placement choosing the anchor
+   * @returns The anchor point and the height of the object's lowest point
+   */
+  private measureAnchor(
+    object: THREE.Object3D,
+    placement: BuildingPlacement
+  ): { anchor: THREE.Vector3; base: number } {
+    const anchorType = placement.anchor ?? "origin";
+    if (anchorType === "origin" && !this.isSnapped(placement)) {
+      return { anchor: object.position.clone(), base: object.position.y };
+    }
+
+    // Bounds after scaling and rotation
+    const bounds = new THREE.Box3().setFromObject(object);
+    if (bounds.isEmpty()) {
+      return { anchor: object.position.clone(), base: object.position.y };
+    }
+
+    const anchor =
+      anchorType === "origin" ? object.position.clone() : bounds.getCenter(new THREE.Vector3());
+    if (anchorType === "base") anchor.y = bounds.min.y;
+    return { anchor, base: bounds.min.y };
+  }
+
+  /**
+   * Scales an object placed with its placement's transform to the target
+   * size, then shifts it so that its anchor point sits at the position, and
+   * its base on the ground if it is snapped
+   * @param object The building's object, transformed as the placement says
+   * @param placement The building placement
+   */
+  private alignBuilding(object: THREE.Object3D, placement: BuildingPlacement): void {
+    const fit = this.getFitScale(object, placement);
+    if (fit !== 1) object.scale.multiplyScalar(fit);
+
+    if ((placement.anchor ?? "origin") === "origin" && !this.isSnapped(placement)) {
+      return;
+    }
+
+    const [x, y, z] = placement.position;
+    const { anchor, base } = this.measureAnchor(object, placement);
+    object.position.x += x - anchor.x;
+    object.position.z += z - anchor.z;
+    object.position.y += this.isSnapped(placement)
+      ? this.groundHeight(x, z) + y - base
+      : y - anchor.y;
+  }
+
+  /**
+   * Computes the world-space bounding boxes of all loaded buildings
+   * @returns Boxes by building id (buildings without geometry are left out)
+   */
+  getBuildingBounds(): Map<string, THREE.Box3> {
+    const bounds = new Map<string, THREE.Box3>();
+
+    this.buildings.forEach((building) => {
+      if (!building.object) return;
+
+      const box = new THREE.Box3().setFromObject(building.object);
+      if (!box.isEmpty()) {
+        bounds.set(building.placement.id, box);
+      }
+    });
+
+    return bounds;
+  }
+
+  /**
+   * Lists the native size of every loaded model next to the heights its
+   * buildings end up with, flagging sizes that suggest a unit mistake
+   * @returns One entry per model, in the order the models were first used
+   */
+  getAssetReport(): ModelAssetReport[] {
+    const bounds = this.getBuildingBounds();
+    const reports = new Map<string, ModelAssetReport>();
+
+    this.buildings.forEach(({ placement }) => {
+      const modelPath = placement.modelPath;
+      if (!modelPath) return;
+
+      let report = reports.get(modelPath);
+      if (!report) {
+        const size = assetManager.getModelSize(modelPath);
+        if (!size) return;
+
+        report = {
+          modelPath,
+          nativeSize: size.toArray(),
+          buildingIds: [],
+          placedHeights: [],
+        };
+        const [min, max] = PLAUSIBLE_MODEL_HEIGHT;
+        if (size.y < min || size.y > max) {
+          report.warning =
+            `${size.y.toPrecision(3)} units tall as authored, ` +
+            (size.y < min ? "likely not in meters" : "likely in centimeters") +
+            "; set targetHeight or fix the model's units";
+        }
+        reports.set(modelPath, report);
+      }
+
+      report.buildingIds.push(placement.id);
+      const box = bounds.get(placement.id);
+      if (box) report.placedHeights.push(box.max.y - box.min.y);
+    });
+
+    return Array.from(reports.values());
+  }
+
+  /**
+   * Logs the asset report as a table, with a warning per suspicious model
+   * @returns The report
+   */
+  logAssetReport(): ModelAssetReport[] {
+    const reports = this.getAssetReport();
+    if (reports.length === 0) return reports;
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    console.groupCollapsed(`Model assets (${reports.length})`);
+    console.table(
+      reports.map((report) => ({
+        model: report.modelPath.split("/").pop(),
+        "native size (x × y × z)": report.nativeSize.map(round).join(" × "),
+        buildings: report.buildingIds.length,
+        "placed height (m)": report.placedHeights.map(round).join(", "),
+      }))
+    );
+    console.groupEnd();
+
+    reports.forEach((report) => {
+      if (report.warning) console.warn(`${report.modelPath}: ${report.warning}`);
+    });
+    return reports;
+  }
+
+  /**
+   * Computes the ground-plane footprints of all loaded buildings
+   * @returns World-space rectangles, one per building
+   */
+  getBuildingFootprints(): BuildingFootprint[] {
+    return Array.from(this.getBuildingBounds(), ([id, box]) => ({
+      id,
+      minX: box.min.x,
+      maxX: box.max.x,
+      minZ: box.min.z,
+      maxZ: box.max.z,
+    }));
+  }
+
+  /**
+   * Computes the turned ground rectangle a building covers, from its object's
+   * current transform (so it also works mid-drag in the editor)
+   * @param id The building id
+   * @returns The footprint, or null if the building is unknown or has no geometry
+   */
+  getOrientedFootprint(id: string): OrientedFootprint | null {
+    const object = this.buildings.get(id)?.object;
+    return object ? computeObjectFootprint(object, id) : null;
+  }
+
+  /**
+   * Computes the turned ground rectangles of all loaded buildings
+   * @returns One footprint per building with geometry
+   */
+  getOrientedFootprints(): OrientedFootprint[] {
+    return Array.from(this.buildings.keys()).flatMap((id) => {
+      const footprint = this.getOrientedFootprint(id);
+      return footprint ? [footprint] : [];
+    });
+  }
+
+  /**
+   * Sets the road rectangles buildings are checked against
+   * @param footprints Road footprints, e.g. from CityEnvironment.getRoadFootprints
+   */
+  setRoadFootprints(footprints: OrientedFootprint[]): void {
+    this.roadFootprints = footprints;
+  }
+
+  /**
+   * Finds buildings that intersect each other or a road
+   * @param id Only check this building (default: all buildings, each pair reported once)
+   * @param margin Gap buildings must keep to count as apart (default: 0)
+   * @returns The overlaps found, deepest first
+   */
+  findOverlaps(id?: string, margin = 0): BuildingOverlap[] {
+    const footprints = this.getOrientedFootprints();
+    const checked = id
+      ? footprints.filter((footprint) => footprint.id === id)
+      : footprints;
+    const overlaps: BuildingOverlap[] = [];
+
+    checked.forEach((footprint) => {
+      const addOverlap = (kind: BuildingOverlap["kind"], other: OrientedFootprint) => {
+        const penetration = testFootprintOverlap(footprint, other, margin);
+        if (penetration) {
+          overlaps.push({ id: footprint.id, kind, otherId: other.id, ...penetration });
+        }
+      };
+
+      footprints.forEach((other) => {
+        // Without an id every pair comes up twice, keep the first
+        if (other.id === footprint.id) return;
+        if (!id && other.id < footprint.id) return;
+        addOverlap("building", other);
+      });
+      this.roadFootprints.forEach((road) => addOverlap("road", road));
+    });
+
+    return overlaps.sort((a, b) => b.depth - a.depth);
+  }
+
+  /**
+   * Logs every building that intersects another building or a road
+   * @param margin Gap buildings must keep to count as apart (default: 0)
+   * @returns The overlaps found, deepest first
+   */
+  reportOverlaps(margin = 0): BuildingOverlap[] {
+    const overlaps = this.findOverlaps(undefined, margin);
+    if (overlaps.length > 0) {
+      console.warn(
+        `${overlaps.length} building overlaps:\n` +
+          overlaps
+            .map(
+              (overlap) =>
+                `  "${overlap.id}" overlaps ${overlap.kind} "${overlap.otherId}" by ${overlap.depth.toFixed(2)} m`
+            )
+            .join("\n")
+      );
+    }
+    return overlaps;
+  }
+
+  /**
+   * Changes the texture optimization settings and reloads the textured
+   * buildings, the only ones the settings apply to
+   * @param optimization The new texture optimization settings
+   * @returns Promise resolving to the number of reloaded buildings
+   */
+  async setTextureOptimization(
+    optimization?: TextureOptimizationConfig
+  ): Promise<number> {
+    if (!this.config) return 0;
+    if (
+      JSON.stringify(optimization) ===
+      JSON.stringify(this.config.textureOptimization)
+    ) {
+      return 0;
+    }
+    this.config.textureOptimization = optimization;
+
+    const textured = Array.from(this.buildings.values()).filter(
+      (building) =>
+        !!building.placement.textures && building.placement.textures.length > 0
+    );
+
+    // Instances share one textured model, so their batches are rebuilt as a whole
+    const batchGroups = new Map<string, BuildingPlacement[]>();
+    textured.forEach((building) => {
+      const batch = this.findBatch(building.placement.id);
+      if (!batch) {
+        this.detachBuilding(building);
+        return;
+      }
+      const key = getBatchKey(building.placement);
+      batchGroups.set(key, [...(batchGroups.get(key) ?? []), building.placement]);
+    });
+    batchGroups.forEach((_placements, key) => {
+      this.batches.get(key)?.dispose();
+      this.batches.delete(key);
+    });
+
+    await Promise.all(
+      Array.from(batchGroups.values()).map((placements) =>
+        this.createBatch(placements[0], placements.length)
+      )
+    );
+    await Promise.all(
+      textured.map((building) => this.placeBuilding(building.placement))
+    );
+    this.events.emit("change", undefined);
+    return textured.length;
+  }
+
+  /**
+   * Removes all buildings from the scene and the registry
+   */
+  clearBuildings(): void {
+    this.buildings.forEach((building) => this.detachBuilding(building));
+    this.buildings.clear();
+    this.batches.forEach((batch) => batch.dispose());
+    this.batches.clear();
+    this.events.emit("change", undefined);
+  }
+
   /**
    * Optimizes material texture usage to prevent exceeding MAX_TEXTURE_IMAGE_UNITS
    * @param material The material to optimize
@@ -97,7 +1144,7 @@ export class CityBuilder {
   private optimizeMaterialTextures(
     material: THREE.Material,
     textureCount: number,
-    optimizationConfig?: any
+    optimizationConfig?: TextureOptimizationConfig
   ): number {
     // If optimization is enabled and we're approaching the limit
     if (
@@ -168,7 +1215,7 @@ export class CityBuilder {
   private async applyTexturesToModel(
     model: THREE.Object3D,
     textures: BuildingTexture[],
-    optimizationConfig?: any
+    optimizationConfig?: TextureOptimizationConfig
   ): Promise<void> {
     console.debug(`Applying ${textures.length} textures to model`);
 
@@ -323,8 +1370,9 @@ export class CityBuilder {
     const assetPaths = new Set<string>();
 
     cityConfig.buildings.forEach((building) => {
-      // Add model path
-      assetPaths.add(building.modelPath);
+      // Add model path and lower-detail models (procedural buildings have no model)
+      if (building.modelPath) assetPaths.add(building.modelPath);
+      building.lod?.levels?.forEach((level) => assetPaths.add(level.modelPath));
 
       // Add texture paths if any
       if (building.textures) {
@@ -347,7 +1395,8 @@ export class CityBuilder {
     const modelPaths = new Set<string>();
 
     cityConfig.buildings.forEach((building) => {
-      modelPaths.add(building.modelPath);
+      if (building.modelPath) modelPaths.add(building.modelPath);
+      building.lod?.levels?.forEach((level) => modelPaths.add(level.modelPath));
     });
 
     return Array.from(modelPaths);
@@ -394,20 +1443,39 @@ export class CityBuilder {
       await this.preloadAssets(cityConfig);
     }
 
+    // Replace any previously built city; the builder keeps its own copy of
+    // the building list so edits never touch the preset configurations
+    this.clearBuildings();
+    this.config = { ...cityConfig, buildings: [...cityConfig.buildings] };
+
+    // Placements sharing a model and textures are rendered as instances
+    const instancing = this.config.instancing ?? { enabled: true };
+    if (instancing.enabled) {
+      const groups = new Map<string, BuildingPlacement[]>();
+      this.config.buildings.forEach((building) => {
+        if (building.lod) return;
+        const key = getBatchKey(building);
+        groups.set(key, [...(groups.get(key) ?? []), building]);
+      });
+
+      const minInstances = instancing.minInstances ?? 2;
+      await Promise.all(
+        Array.from(groups.values())
+          .filter((placements) => placements.length >= minInstances)
+          .map((placements) => this.createBatch(placements[0], placements.length))
+      );
+    }
+
     // Place all buildings
-    const buildingPromises = cityConfig.buildings.map((building) =>
-      this.loadAndPlaceModel(
-        building.modelPath,
-        building.position,
-        building.scale,
-        building.rotation,
-        building.textures,
-        cityConfig.textureOptimization
-      )
+    const buildingPromises = this.config.buildings.map(async (placement) =>
+      this.events.emit("buildingAdded", await this.placeBuilding(placement))
     );
 
     await Promise.all(buildingPromises);
-    console.log(`Placed ${cityConfig.buildings.length} buildings in the scene`);
+    this.events.emit("change", undefined);
+    console.log(
+      `Placed ${cityConfig.buildings.length} buildings in the scene (${this.batches.size} instanced batches)`
+    );
   }
 }
 
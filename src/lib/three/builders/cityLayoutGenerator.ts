@@ -0,0 +1,405 @@
+import { cityConfig } from "../config/cityConfig";
+import { getGridLines, getGridRoadSize } from "../environment/roadNetwork";
+import { SeededRandom } from "../utils/random";
+import type {
+  BuildingPlacement,
+  CityConfig,
+  GridRoadNetworkConfig,
+  NeonPattern,
+  ZoneType,
+} from "../types";
+
+/**
+ * A hand-made model the generator may place on a lot
+ */
+export interface LayoutModel {
+  modelPath: string;
+  /** Footprint width (X) in meters as placed */
+  width: number;
+  /** Footprint depth (Z) in meters as placed */
+  depth: number;
+  /** Zones the model fits in */
+  zones: ZoneType[];
+  /** Height in meters, for models not authored in meters (see BuildingPlacement) */
+  targetHeight?: number;
+  /** Footprint in meters, for models not authored in meters (see BuildingPlacement) */
+  targetFootprint?: [number, number];
+}
+
+/**
+ * Height distribution: floors fall off from the center to the edge
+ */
+export interface LayoutHeightOptions {
+  /** Floors of a downtown building at the center (default: 45) */
+  centerFloors?: number;
+  /** Floors at the edge of the city (default: 4) */
+  edgeFloors?: number;
+  /** Exponent of the falloff; above 1 keeps the towers close to the center (default: 1.5) */
+  falloff?: number;
+  /** Random variation as a share of the floor count (default: 0.3) */
+  variation?: number;
+}
+
+/**
+ * City layout generator options
+ */
+export interface CityLayoutOptions {
+  /** Same seed and options, same city */
+  seed: number;
+  /** Side length of the ground in meters (default: the base config's ground size) */
+  size?: number;
+  /** Distance between road centerlines (default: 60) */
+  blockSize?: number;
+  /** Share of lots that get a building, 0-1 (default: 0.85) */
+  density?: number;
+  /** Minimum gap between buildings and from the sidewalk in meters (default: 4) */
+  spacing?: number;
+  height?: LayoutHeightOptions;
+  /** Share of the city radius around the center that is downtown, 0-1 (default: 0.35) */
+  downtownRadius?: number;
+  /** Share of the outer blocks that are industrial, 0-1; more likely toward the edge (default: 0.25) */
+  industrialShare?: number;
+  /** Share of lots that use a hand-made model where one fits, 0-1 (default: 0.2) */
+  modelShare?: number;
+  /** Hand-made models to mix in (default: LAYOUT_MODELS) */
+  models?: LayoutModel[];
+  /** Configuration the environment and settings are copied from (default: cityConfig) */
+  base?: CityConfig;
+}
+
+/**
+ * How buildings in a zone look
+ */
+interface ZoneProfile {
+  /** Lot size range along each side in meters */
+  lotSize: [number, number];
+  /** Share of the free lot each footprint covers */
+  fill: [number, number];
+  /** Multiplier on the height distribution */
+  heightScale: number;
+  floors: [number, number];
+  floorHeight: number;
+  maxSetbacks: number;
+  neonPatterns: NeonPattern[];
+  litWindowRatio: [number, number];
+  colors: number[];
+}
+
+/**
+ * Hand-made models under src/assets/models/buildings, with footprints in
+ * meters. Models not authored in meters are sized with targetHeight or
+ * targetFootprint like any placement. They are placed by the base of their
+ * bounds, so off-center models need no offsets.
+ */
+export const LAYOUT_MODELS: LayoutModel[] = [
+  {
+    modelPath: "./src/assets/models/buildings/high-rise-building/high-rise-building.glb",
+    width: 12.3,
+    depth: 12.2,
+    zones: ["downtown"],
+  },
+  {
+    modelPath:
+      "./src/assets/models/buildings/blue-skyscraper-building/blue-skyscrapper-building.glb",
+    width: 20.1,
+    depth: 8.8,
+    zones: ["downtown"],
+  },
+  {
+    modelPath:
+      "./src/assets/models/buildings/cyberpunk-apartment-building/cyberpunk-apartment-building.glb",
+    width: 17.3,
+    depth: 10.3,
+    zones: ["residential"],
+    // Authored about one unit tall; sized by the footprint it needs on a lot
+    targetFootprint: [17.3, 10.3],
+  },
+];
+
+/** Building styles by zone */
+const ZONE_PROFILES: Record<ZoneType, ZoneProfile> = {
+  downtown: {
+    lotSize: [18, 30],
+    fill: [0.75, 1],
+    heightScale: 1,
+    floors: [8, 80],
+    floorHeight: 3,
+    maxSetbacks: 3,
+    neonPatterns: ["stripes", "columns", "random", "checker"],
+    litWindowRatio: [0.3, 0.55],
+    colors: [0x1f2229, 0x2a2d34, 0x2f3a40, 0x3b3f4a],
+  },
+  residential: {
+    lotSize: [14, 24],
+    fill: [0.6, 0.9],
+    heightScale: 0.35,
+    floors: [3, 14],
+    floorHeight: 3,
+    maxSetbacks: 1,
+    neonPatterns: ["random"],
+    litWindowRatio: [0.2, 0.4],
+    colors: [0x4a4540, 0x35302e, 0x3d3a36, 0x2e3236],
+  },
+  industrial: {
+    lotSize: [22, 36],
+    fill: [0.7, 0.95],
+    heightScale: 0.1,
+    floors: [1, 4],
+    floorHeight: 5, // Warehouse and factory halls
+    maxSetbacks: 0,
+    neonPatterns: ["none", "columns"],
+    litWindowRatio: [0.05, 0.15],
+    colors: [0x3a3c3e, 0x45433d, 0x2c2f33],
+  },
+};
+
+/**
+ * Free area of a block between the sidewalks of its roads
+ */
+interface BlockArea {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+/** Road style used when the base config has no roads section */
+const DEFAULT_ROAD_STYLE = {
+  width: 10,
+  lanes: 2,
+  sidewalkWidth: 3,
+  curbHeight: 0.15,
+  laneMarkings: true,
+};
+
+/**
+ * Rounds to centimeters so generated layouts stay readable when saved
+ */
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Picks the zone of a block
+ * @param distance Distance of the block center from the city center, 0-1
+ */
+const pickZone = (
+  distance: number,
+  downtownRadius: number,
+  industrialShare: number,
+  random: SeededRandom
+): ZoneType => {
+  if (distance < downtownRadius) return "downtown";
+  // Industry gathers toward the edge: the chance grows from 0 to twice the share
+  const outward = (distance - downtownRadius) / Math.max(1e-6, 1 - downtownRadius);
+  return random.chance(industrialShare * 2 * Math.min(1, outward))
+    ? "industrial"
+    : "residential";
+};
+
+/**
+ * Splits a length into lots within a size range
+ * @returns Lot sizes adding up to the length
+ */
+const splitLots = (length: number, [min, max]: [number, number], random: SeededRandom): number[] => {
+  const count = Math.max(1, Math.round(length / random.range(min, max)));
+  return Array.from({ length: count }, () => length / count);
+};
+
+/**
+ * Finds the free area of every block between the grid roads
+ */
+const getBlockAreas = (roads: GridRoadNetworkConfig, groundSize: number): BlockArea[] => {
+  const { lines, stops } = getGridLines(roads, groundSize);
+
+  // Distance a block keeps from a stop: half the road plus the sidewalk, or
+  // nothing at the dead-end edge of the covered area
+  const clearance = (stop: number) =>
+    lines.includes(stop)
+      ? getGridRoadSize(roads, stop).width / 2 + roads.sidewalkWidth
+      : 0;
+
+  const spans: Array<[number, number]> = [];
+  for (let i = 0; i < stops.length - 1; i++) {
+    const min = stops[i] + clearance(stops[i]);
+    const max = stops[i + 1] - clearance(stops[i + 1]);
+    if (max > min) spans.push([min, max]);
+  }
+
+  return spans.flatMap(([minX, maxX]) =>
+    spans.map(([minZ, maxZ]) => ({ minX, maxX, minZ, maxZ }))
+  );
+};
+
+/**
+ * Generates a whole city from a seed: a road grid whose blocks are zoned
+ * downtown, residential or industrial and split into lots, each filled with
+ * a hand-made model or a procedural building. Buildings get taller toward
+ * the center. The result is a plain CityConfig that can be built directly
+ * or saved and edited by hand.
+ * @param options Generator options
+ * @returns The city configuration
+ */
+export const generateCityLayout = (options: CityLayoutOptions): CityConfig => {
+  const random = new SeededRandom(options.seed);
+  const base = options.base ?? cityConfig;
+  const size = options.size ?? base.environment.ground.size;
+  const density = options.density ?? 0.85;
+  const spacing = options.spacing ?? 4;
+  const downtownRadius = options.downtownRadius ?? 0.35;
+  const industrialShare = options.industrialShare ?? 0.25;
+  const modelShare = options.modelShare ?? 0.2;
+  const models = options.models ?? LAYOUT_MODELS;
+  const height = {
+    centerFloors: options.height?.centerFloors ?? 45,
+    edgeFloors: options.height?.edgeFloors ?? 4,
+    falloff: options.height?.falloff ?? 1.5,
+    variation: options.height?.variation ?? 0.3,
+  };
+
+  // Keep the base road style, on a grid of the requested block size
+  const baseRoads = base.environment.ground.roads;
+  const roads: GridRoadNetworkConfig = {
+    ...(baseRoads
+      ? {
+          width: baseRoads.width,
+          lanes: baseRoads.lanes,
+          sidewalkWidth: baseRoads.sidewalkWidth,
+          curbHeight: baseRoads.curbHeight,
+          sidewalkColor: baseRoads.sidewalkColor,
+          curbColor: baseRoads.curbColor,
+          markingColor: baseRoads.markingColor,
+          laneMarkings: baseRoads.laneMarkings,
+          ...(baseRoads.layout === "grid" && baseRoads.majorRoads
+            ? { majorRoads: baseRoads.majorRoads }
+            : {}),
+        }
+      : DEFAULT_ROAD_STYLE),
+    layout: "grid",
+    blockSize: options.blockSize ?? 60,
+    extent: size * 0.9,
+  };
+
+  const half = (size * 0.9) / 2;
+  const buildings: BuildingPlacement[] = [];
+
+  getBlockAreas(roads, size).forEach((block, blockIndex) => {
+    // Every block gets its own generator, so changing one block's lots
+    // doesn't reshuffle the rest of the city
+    const blockRandom = random.fork();
+    const centerX = (block.minX + block.maxX) / 2;
+    const centerZ = (block.minZ + block.maxZ) / 2;
+    const distance = Math.min(1, Math.hypot(centerX, centerZ) / half);
+    const zone = pickZone(distance, downtownRadius, industrialShare, blockRandom);
+    const profile = ZONE_PROFILES[zone];
+
+    const lotWidths = splitLots(block.maxX - block.minX, profile.lotSize, blockRandom);
+    const lotDepths = splitLots(block.maxZ - block.minZ, profile.lotSize, blockRandom);
+
+    let lotX = block.minX;
+    lotWidths.forEach((lotWidth, column) => {
+      let lotZ = block.minZ;
+      lotDepths.forEach((lotDepth, row) => {
+        const lotMinX = lotX;
+        const lotMinZ = lotZ;
+        lotZ += lotDepth;
+        if (!blockRandom.chance(density)) return;
+
+        // Half the spacing on every side keeps neighbours a full spacing apart
+        const freeWidth = lotWidth - spacing;
+        const freeDepth = lotDepth - spacing;
+        if (freeWidth < 4 || freeDepth < 4) return;
+
+        const lotCenterX = lotMinX + lotWidth / 2;
+        const lotCenterZ = lotMinZ + lotDepth / 2;
+        const lotDistance = Math.min(1, Math.hypot(lotCenterX, lotCenterZ) / half);
+        const id = `${zone}-${blockIndex}-${column}-${row}`;
+        const tags = ["generated", zone];
+
+        // A hand-made model if one fits the lot, possibly turned 90°
+        if (blockRandom.chance(modelShare)) {
+          const fitting = models.flatMap((model) => {
+            if (!model.zones.includes(zone)) return [];
+            const turns: number[] = [];
+            if (model.width <= freeWidth && model.depth <= freeDepth) turns.push(0);
+            if (model.depth <= freeWidth && model.width <= freeDepth) turns.push(1);
+            return turns.map((turn) => ({ model, turn }));
+          });
+          if (fitting.length > 0) {
+            const { model, turn } = blockRandom.pick(fitting);
+            const angle = turn * (Math.PI / 2) + (blockRandom.chance(0.5) ? Math.PI : 0);
+            buildings.push({
+              id,
+              tags,
+              modelPath: model.modelPath,
+              position: [round(lotCenterX), 0, round(lotCenterZ)],
+              scale: [1, 1, 1],
+              rotation: [0, round(angle), 0],
+              ...(model.targetHeight !== undefined
+                ? { targetHeight: model.targetHeight }
+                : {}),
+              ...(model.targetFootprint ? { targetFootprint: model.targetFootprint } : {}),
+              // The footprint's center on the lot, the base on the ground
+              anchor: "base",
+            });
+            return;
+          }
+        }
+
+        // Floors fall off from the center, scaled and capped per zone
+        const centerShare = Math.pow(1 - lotDistance, height.falloff);
+        const baseFloors =
+          height.edgeFloors + (height.centerFloors - height.edgeFloors) * centerShare;
+        const varied =
+          baseFloors *
+          profile.heightScale *
+          blockRandom.range(1 - height.variation, 1 + height.variation);
+        const floors = Math.round(
+          Math.min(profile.floors[1], Math.max(profile.floors[0], varied))
+        );
+
+        const width = round(freeWidth * blockRandom.range(...profile.fill));
+        const depth = round(freeDepth * blockRandom.range(...profile.fill));
+        // Tall towers step back, low buildings don't
+        const setbacks = floors >= 20 ? blockRandom.int(0, profile.maxSetbacks) : 0;
+
+        buildings.push({
+          id,
+          tags,
+          procedural: {
+            seed: blockRandom.int(0, 2147483647),
+            width,
+            depth,
+            floors,
+            floorHeight: profile.floorHeight,
+            setbacks,
+            color: blockRandom.pick(profile.colors),
+            litWindowRatio: round(blockRandom.range(...profile.litWindowRatio)),
+            neonPattern: blockRandom.pick(profile.neonPatterns),
+          },
+          // Jitter within the lot's free space
+          position: [
+            round(lotCenterX + blockRandom.range(-1, 1) * (freeWidth - width) / 2),
+            0,
+            round(lotCenterZ + blockRandom.range(-1, 1) * (freeDepth - depth) / 2),
+          ],
+          scale: [1, 1, 1],
+          rotation: [0, 0, 0],
+        });
+      });
+      lotX += lotWidth;
+    });
+  });
+
+  console.log(`Generated city layout with ${buildings.length} buildings (seed ${options.seed})`);
+
+  // Camera paths and bookmarks of the base layout would point into buildings
+  const environment = structuredClone(base.environment);
+  environment.ground = { ...environment.ground, size, roads };
+  return {
+    buildings,
+    environment,
+    ...(base.textureOptimization
+      ? { textureOptimization: structuredClone(base.textureOptimization) }
+      : {}),
+    ...(base.instancing ? { instancing: { ...base.instancing } } : {}),
+  };
+};
@@ -0,0 +1,247 @@
+import * as THREE from "three";
+import type { BuildingPlacement } from "../types";
+
+/**
+ * One sub-mesh of the batched model, drawn once per building
+ */
+interface InstancedPart {
+  mesh: THREE.InstancedMesh;
+  /** Transform of the sub-mesh relative to the model root */
+  localMatrix: THREE.Matrix4;
+}
+
+/** Unit box scaled to the model bounds, shared by all proxies */
+const BOUNDS_GEOMETRY = new THREE.BoxGeometry(1, 1, 1);
+const BOUNDS_MATERIAL = new THREE.MeshBasicMaterial({ visible: false });
+
+/**
+ * Gets the key under which placements can share a batch: same model and
+ * identical textures
+ * @param placement The building placement
+ * @returns The batch key
+ */
+export const getBatchKey = (placement: BuildingPlacement): string =>
+  `${placement.modelPath ?? `procedural:${JSON.stringify(placement.procedural)}`}|${JSON.stringify(
+    placement.textures ?? []
+  )}`;
+
+/**
+ * Renders every building that uses the same model and textures with one
+ * InstancedMesh per sub-mesh.
+ *
+ * Each building is represented in the scene by an empty proxy object that
+ * carries its transform and an invisible box matching the model bounds, so
+ * the registry, editor gizmos and footprint queries work the same as for
+ * individually placed buildings. Call update() after moving a proxy.
+ */
+export class InstancedBuildingBatch {
+  readonly key: string;
+  readonly group = new THREE.Group();
+  private parts: InstancedPart[] = [];
+  private ids: string[] = [];
+  private proxies = new Map<string, THREE.Object3D>();
+  private bounds: THREE.Box3;
+  private ownsMaterials: boolean;
+  private ownsGeometry: boolean;
+  private capacity: number;
+  private matrix = new THREE.Matrix4();
+
+  /**
+   * Creates a batch from a template model
+   * @param key The batch key (see getBatchKey)
+   * @param template The loaded model, with textures already applied
+   * @param ownsMaterials Whether the template's materials belong to this batch (textured models)
+   * @param capacity Initial number of instances, grows as needed
+   * @param ownsGeometry Whether the template's geometries belong to this batch (generated models)
+   */
+  constructor(
+    key: string,
+    template: THREE.Object3D,
+    ownsMaterials: boolean,
+    capacity = 4,
+    ownsGeometry = false
+  ) {
+    this.key = key;
+    this.ownsMaterials = ownsMaterials;
+    this.ownsGeometry = ownsGeometry;
+    this.capacity = Math.max(1, capacity);
+    this.group.name = `building-batch:${key.split("|")[0]}`;
+    this.group.userData.type = "buildingBatch";
+
+    // Sub-mesh transforms relative to the model root
+    template.position.set(0, 0, 0);
+    template.rotation.set(0, 0, 0);
+    template.scale.set(1, 1, 1);
+    template.updateMatrixWorld(true);
+    this.bounds = new THREE.Box3().setFromObject(template);
+
+    template.traverse((node) => {
+      if (!(node instanceof THREE.Mesh)) return;
+      this.parts.push({
+        mesh: this.createInstancedMesh(node.geometry, node.material),
+        localMatrix: node.matrixWorld.clone(),
+      });
+    });
+
+    this.parts.forEach((part) => this.group.add(part.mesh));
+  }
+
+  /**
+   * Creates an instanced mesh for one sub-mesh at the current capacity
+   */
+  private createInstancedMesh(
+    geometry: THREE.BufferGeometry,
+    material: THREE.Material | THREE.Material[]
+  ): THREE.InstancedMesh {
+    const mesh = new THREE.InstancedMesh(geometry, material, this.capacity);
+    mesh.count = this.ids.length;
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    mesh.userData.batchKey = this.key;
+    return mesh;
+  }
+
+  /**
+   * Doubles the capacity of all instanced meshes, keeping current instances
+   */
+  private grow(): void {
+    this.capacity *= 2;
+
+    this.parts.forEach((part) => {
+      const previous = part.mesh;
+      const mesh = this.createInstancedMesh(previous.geometry, previous.material);
+      for (let i = 0; i < this.ids.length; i++) {
+        previous.getMatrixAt(i, this.matrix);
+        mesh.setMatrixAt(i, this.matrix);
+      }
+
+      this.group.remove(previous);
+      previous.dispose();
+      this.group.add(mesh);
+      part.mesh = mesh;
+    });
+  }
+
+  /**
+   * Marks instance data as changed after instances were written
+   */
+  private markChanged(): void {
+    this.parts.forEach((part) => {
+      part.mesh.count = this.ids.length;
+      part.mesh.instanceMatrix.needsUpdate = true;
+      // Recomputed lazily for culling and raycasting
+      part.mesh.boundingSphere = null;
+    });
+  }
+
+  /**
+   * Number of buildings in the batch
+   */
+  get size(): number {
+    return this.ids.length;
+  }
+
+  has(id: string): boolean {
+    return this.proxies.has(id);
+  }
+
+  /**
+   * Adds a building to the batch
+   * @param id The building id
+   * @returns The proxy object representing the building (not yet added to the scene)
+   */
+  add(id: string): THREE.Object3D {
+    if (this.ids.length >= this.capacity) {
+      this.grow();
+    }
+
+    const proxy = new THREE.Group();
+    proxy.userData.instanced = true;
+
+    // Invisible box so bounds, footprints and selection outlines match the model
+    const boundsMesh = new THREE.Mesh(BOUNDS_GEOMETRY, BOUNDS_MATERIAL);
+    this.bounds.getCenter(boundsMesh.position);
+    this.bounds.getSize(boundsMesh.scale);
+    boundsMesh.raycast = () => {}; // Picking goes through the instanced meshes
+    proxy.add(boundsMesh);
+
+    this.ids.push(id);
+    this.proxies.set(id, proxy);
+    this.update(id);
+    return proxy;
+  }
+
+  /**
+   * Copies a proxy's transform to its instances
+   * @param id The building id
+   */
+  update(id: string): void {
+    const proxy = this.proxies.get(id);
+    if (!proxy) return;
+
+    const index = this.ids.indexOf(id);
+    proxy.updateMatrixWorld();
+
+    this.parts.forEach((part) => {
+      this.matrix.multiplyMatrices(proxy.matrixWorld, part.localMatrix);
+      part.mesh.setMatrixAt(index, this.matrix);
+    });
+    this.markChanged();
+  }
+
+  /**
+   * Removes a building from the batch; the last instance takes its slot
+   * @param id The building id
+   * @returns True if the building was part of the batch
+   */
+  remove(id: string): boolean {
+    const index = this.ids.indexOf(id);
+    if (index === -1) return false;
+
+    const last = this.ids.length - 1;
+    if (index !== last) {
+      this.parts.forEach((part) => {
+        part.mesh.getMatrixAt(last, this.matrix);
+        part.mesh.setMatrixAt(index, this.matrix);
+      });
+      this.ids[index] = this.ids[last];
+    }
+
+    this.ids.pop();
+    this.proxies.get(id)?.removeFromParent();
+    this.proxies.delete(id);
+    this.markChanged();
+    return true;
+  }
+
+  /**
+   * Resolves an instance of any of the batch's meshes to its building
+   * @param instanceId The instance index from a raycast intersection
+   * @returns The building id or null if out of range
+   */
+  getBuildingId(instanceId: number): string | null {
+    return this.ids[instanceId] ?? null;
+  }
+
+  /**
+   * Removes the batch from the scene and frees its instance buffers
+   * (geometry stays cached in the asset manager)
+   */
+  dispose(): void {
+    this.proxies.forEach((proxy) => proxy.removeFromParent());
+    this.proxies.clear();
+    this.ids = [];
+
+    this.parts.forEach((part) => {
+      if (this.ownsMaterials) {
+        const materials = Array.isArray(part.mesh.material)
+          ? part.mesh.material
+          : [part.mesh.material];
+        materials.forEach((material) => material.dispose());
+      }
+      if (this.ownsGeometry) part.mesh.geometry.dispose();
+      part.mesh.dispose();
+    });
+    this.group.removeFromParent();
+  }
+}
@@ -0,0 +1,425 @@
+import * as THREE from "three";
+import { SeededRandom } from "../utils/random";
+import type { NeonPattern, ProceduralBuildingSpec } from "../types";
+
+/** Default height of one floor in meters */
+const FLOOR_HEIGHT = 3;
+/** Default distance each setback tier steps back on every side */
+const SETBACK_INSET = 2;
+/** Narrowest tier in meters; setbacks stop before a tier gets thinner */
+const MIN_TIER_SIZE = 4;
+/** Distance between window centers along a facade */
+const WINDOW_SPACING = 3;
+/** Window width in meters */
+const WINDOW_WIDTH = 1.6;
+/** Window height as a share of the floor height */
+const WINDOW_HEIGHT_RATIO = 0.5;
+/** Distance windows stand off the facade so they don't z-fight with it */
+const WINDOW_OFFSET = 0.03;
+/** Height of the neon band around the top of each tier */
+const TRIM_HEIGHT = 0.3;
+/** Share of lit windows when the spec doesn't set one */
+const LIT_WINDOW_RATIO = 0.35;
+
+/** Facade colors picked from the seed: concrete, steel and dark glass tones */
+const FACADE_COLORS = [0x2a2d34, 0x3b3f4a, 0x1f2229, 0x4a4540, 0x2f3a40, 0x35302e];
+/** Neon colors picked from the seed */
+const NEON_COLORS = [0x00e5ff, 0xff2bd6, 0xffb000, 0x7cff4f, 0x8a5cff, 0xff4d4d];
+
+const AXIS_X = new THREE.Vector3(1, 0, 0);
+const AXIS_NEG_X = new THREE.Vector3(-1, 0, 0);
+const AXIS_Y = new THREE.Vector3(0, 1, 0);
+const AXIS_Z = new THREE.Vector3(0, 0, 1);
+const AXIS_NEG_Z = new THREE.Vector3(0, 0, -1);
+
+/**
+ * Collects quads into one indexed BufferGeometry, so every material of a
+ * building is drawn with a single mesh
+ */
+class MeshBuilder {
+  private positions: number[] = [];
+  private normals: number[] = [];
+  private uvs: number[] = [];
+  private indices: number[] = [];
+  private corner = new THREE.Vector3();
+
+  /**
+   * Adds a rectangle facing along u × v
+   * @param center Center of the rectangle
+   * @param u Unit vector along the width
+   * @param v Unit vector along the height
+   * @param width Size along u
+   * @param height Size along v
+   */
+  addQuad(
+    center: THREE.Vector3,
+    u: THREE.Vector3,
+    v: THREE.Vector3,
+    width: number,
+    height: number
+  ): void {
+    const normal = new THREE.Vector3().crossVectors(u, v);
+    const first = this.positions.length / 3;
+
+    [
+      [-0.5, -0.5],
+      [0.5, -0.5],
+      [0.5, 0.5],
+      [-0.5, 0.5],
+    ].forEach(([a, b]) => {
+      this.corner
+        .copy(center)
+        .addScaledVector(u, a * width)
+        .addScaledVector(v, b * height);
+      this.positions.push(this.corner.x, this.corner.y, this.corner.z);
+      this.normals.push(normal.x, normal.y, normal.z);
+      this.uvs.push(a + 0.5, b + 0.5);
+    });
+
+    this.indices.push(first, first + 1, first + 2, first, first + 2, first + 3);
+  }
+
+  /**
+   * Adds an axis-aligned box without its bottom face
+   * @param x Center along X
+   * @param y Bottom of the box
+   * @param z Center along Z
+   * @param width Size along X
+   * @param height Size along Y
+   * @param depth Size along Z
+   */
+  addBox(
+    x: number,
+    y: number,
+    z: number,
+    width: number,
+    height: number,
+    depth: number
+  ): void {
+    const middle = y + height / 2;
+    this.addQuad(new THREE.Vector3(x, y + height, z), AXIS_X, AXIS_NEG_Z, width, depth);
+    this.addQuad(new THREE.Vector3(x, middle, z + depth / 2), AXIS_X, AXIS_Y, width, height);
+    this.addQuad(new THREE.Vector3(x, middle, z - depth / 2), AXIS_NEG_X, AXIS_Y, width, height);
+    this.addQuad(new THREE.Vector3(x + width / 2, middle, z), AXIS_NEG_Z, AXIS_Y, depth, height);
+    this.addQuad(new THREE.Vector3(x - width / 2, middle, z), AXIS_Z, AXIS_Y, depth, height);
+  }
+
+  isEmpty(): boolean {
+    return this.indices.length === 0;
+  }
+
+  toGeometry(): THREE.BufferGeometry {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute("position", new THREE.Float32BufferAttribute(this.positions, 3));
+    geometry.setAttribute("normal", new THREE.Float32BufferAttribute(this.normals, 3));
+    geometry.setAttribute("uv", new THREE.Float32BufferAttribute(this.uvs, 2));
+    geometry.setIndex(this.indices);
+    geometry.computeBoundingBox();
+    geometry.computeBoundingSphere();
+    return geometry;
+  }
+}
+
+/**
+ * One block of a building between two setbacks
+ */
+interface Tier {
+  width: number;
+  depth: number;
+  /** First floor of the tier, counted from the ground */
+  firstFloor: number;
+  floors: number;
+}
+
+/**
+ * Splits the floors into tiers that step back toward the top. Lower tiers
+ * get more floors, like a classic setback tower.
+ */
+const planTiers = (
+  spec: ProceduralBuildingSpec,
+  inset: number
+): Tier[] => {
+  const floors = Math.max(1, Math.round(spec.floors));
+  let tierCount = Math.min(Math.max(0, Math.round(spec.setbacks ?? 0)) + 1, floors);
+
+  // Drop setbacks that would make the top tier too thin
+  const narrowest = Math.min(spec.width, spec.depth);
+  while (tierCount > 1 && narrowest - 2 * inset * (tierCount - 1) < MIN_TIER_SIZE) {
+    tierCount--;
+  }
+
+  // Every tier gets one floor, the rest is shared in proportion to
+  // (tierCount - i) with the remainder going to the bottom tier
+  const weights = Array.from({ length: tierCount }, (_, index) => tierCount - index);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const extraFloors = floors - tierCount;
+  const counts = weights.map(
+    (weight) => 1 + Math.floor((extraFloors * weight) / totalWeight)
+  );
+  counts[0] += floors - counts.reduce((sum, count) => sum + count, 0);
+
+  let firstFloor = 0;
+  return counts.map((count, index) => {
+    const tier: Tier = {
+      width: spec.width - 2 * inset * index,
+      depth: spec.depth - 2 * inset * index,
+      firstFloor,
+      floors: count,
+    };
+    firstFloor += count;
+    return tier;
+  });
+};
+
+/**
+ * Decides which windows are lit for a neon pattern
+ * @returns Function taking the floor, the facade and the column of a window
+ */
+const createLitWindowTest = (
+  pattern: NeonPattern,
+  ratio: number,
+  random: SeededRandom
+): ((floor: number, facade: number, column: number) => boolean) => {
+  const floorLit = new Map<number, boolean>();
+  const columnLit = new Map<string, boolean>();
+
+  switch (pattern) {
+    case "none":
+      return () => false;
+    case "stripes":
+      // Whole floors lit
+      return (floor) => {
+        if (!floorLit.has(floor)) floorLit.set(floor, random.chance(ratio));
+        return floorLit.get(floor)!;
+      };
+    case "columns":
+      // Vertical strips running up the facades
+      return (_floor, facade, column) => {
+        const key = `${facade}:${column}`;
+        if (!columnLit.has(key)) columnLit.set(key, random.chance(ratio));
+        return columnLit.get(key)!;
+      };
+    case "checker":
+      return (floor, _facade, column) =>
+        (floor + column) % 2 === 0 && random.chance(Math.min(1, ratio * 2));
+    case "random":
+    default:
+      return () => random.chance(ratio);
+  }
+};
+
+/**
+ * Adds the window grid of one tier, splitting windows between the glass
+ * and the lit builder
+ */
+const addTierWindows = (
+  tier: Tier,
+  baseY: number,
+  floorHeight: number,
+  glass: MeshBuilder,
+  lit: MeshBuilder,
+  isLit: (floor: number, facade: number, column: number) => boolean
+): void => {
+  const halfWidth = tier.width / 2;
+  const halfDepth = tier.depth / 2;
+  const windowHeight = floorHeight * WINDOW_HEIGHT_RATIO;
+
+  // Facades as [center offset, direction along the facade, facade width]
+  const facades: Array<[THREE.Vector3, THREE.Vector3, number]> = [
+    [new THREE.Vector3(0, 0, halfDepth + WINDOW_OFFSET), AXIS_X, tier.width],
+    [new THREE.Vector3(0, 0, -halfDepth - WINDOW_OFFSET), AXIS_NEG_X, tier.width],
+    [new THREE.Vector3(halfWidth + WINDOW_OFFSET, 0, 0), AXIS_NEG_Z, tier.depth],
+    [new THREE.Vector3(-halfWidth - WINDOW_OFFSET, 0, 0), AXIS_Z, tier.depth],
+  ];
+
+  const center = new THREE.Vector3();
+  facades.forEach(([offset, along, facadeWidth], facade) => {
+    const columns = Math.floor(facadeWidth / WINDOW_SPACING);
+    if (columns < 1) return;
+    const spacing = facadeWidth / columns;
+    const windowWidth = Math.min(WINDOW_WIDTH, spacing * 0.7);
+
+    for (let floor = tier.firstFloor; floor < tier.firstFloor + tier.floors; floor++) {
+      const y = baseY + (floor - tier.firstFloor + 0.5) * floorHeight;
+      for (let column = 0; column < columns; column++) {
+        center
+          .copy(offset)
+          .addScaledVector(along, -facadeWidth / 2 + spacing * (column + 0.5));
+        center.y = y;
+        const builder = isLit(floor, facade, column) ? lit : glass;
+        builder.addQuad(center, along, AXIS_Y, windowWidth, windowHeight);
+      }
+    }
+  });
+};
+
+/**
+ * Adds a horizontal band just off the facades of a tier
+ */
+const addTierBand = (tier: Tier, centerY: number, builder: MeshBuilder): void => {
+  const halfWidth = tier.width / 2 + WINDOW_OFFSET;
+  const halfDepth = tier.depth / 2 + WINDOW_OFFSET;
+  builder.addQuad(new THREE.Vector3(0, centerY, halfDepth), AXIS_X, AXIS_Y, 2 * halfWidth, TRIM_HEIGHT);
+  builder.addQuad(new THREE.Vector3(0, centerY, -halfDepth), AXIS_NEG_X, AXIS_Y, 2 * halfWidth, TRIM_HEIGHT);
+  builder.addQuad(new THREE.Vector3(halfWidth, centerY, 0), AXIS_NEG_Z, AXIS_Y, 2 * halfDepth, TRIM_HEIGHT);
+  builder.addQuad(new THREE.Vector3(-halfWidth, centerY, 0), AXIS_Z, AXIS_Y, 2 * halfDepth, TRIM_HEIGHT);
+};
+
+/**
+ * Adds rooftop equipment within the roof of the top tier
+ */
+const addRooftop = (
+  tier: Tier,
+  roofY: number,
+  equipment: MeshBuilder,
+  lit: MeshBuilder,
+  random: SeededRandom
+): void => {
+  const margin = 1;
+  const spanX = tier.width / 2 - margin;
+  const spanZ = tier.depth / 2 - margin;
+  if (spanX <= 1 || spanZ <= 1) return;
+
+  // Stair and elevator housing
+  if (random.chance(0.7)) {
+    const size = Math.min(3, spanX, spanZ);
+    equipment.addBox(
+      random.range(-spanX + size / 2, spanX - size / 2),
+      roofY,
+      random.range(-spanZ + size / 2, spanZ - size / 2),
+      size,
+      random.range(2.5, 3.5),
+      size
+    );
+  }
+
+  // AC units, more on bigger roofs
+  const units = random.int(1, Math.min(6, 1 + Math.floor((tier.width * tier.depth) / 150)));
+  for (let i = 0; i < units; i++) {
+    const width = random.range(1.2, 2.5);
+    const depth = random.range(1.2, 2.5);
+    equipment.addBox(
+      random.range(-spanX + width / 2, spanX - width / 2),
+      roofY,
+      random.range(-spanZ + depth / 2, spanZ - depth / 2),
+      width,
+      random.range(0.8, 1.6),
+      depth
+    );
+  }
+
+  // Antenna mast with a lit tip
+  if (random.chance(0.5)) {
+    const x = random.range(-spanX, spanX);
+    const z = random.range(-spanZ, spanZ);
+    const height = random.range(4, 12);
+    equipment.addBox(x, roofY, z, 0.15, height, 0.15);
+    lit.addBox(x, roofY + height, z, 0.35, 0.35, 0.35);
+  }
+};
+
+/**
+ * Generates a building from a spec: setback tiers, a window grid with a
+ * neon pattern of lit windows, neon trim around each tier and rooftop
+ * clutter. The result is centered on the origin with its base at y = 0 and
+ * uses four meshes (facade, glass, neon and equipment).
+ *
+ * The same spec always produces the same building. Lit materials are marked
+ * with `userData.cityLight`, so the day/night cycle dims them by day.
+ * @param spec The building spec
+ * @returns The building (its geometries and materials belong to it)
+ */
+export const generateProceduralBuilding = (
+  spec: ProceduralBuildingSpec
+): THREE.Group => {
+  const random = new SeededRandom(spec.seed);
+  const floorHeight = spec.floorHeight ?? FLOOR_HEIGHT;
+  const inset = spec.setbackInset ?? SETBACK_INSET;
+  const pattern = spec.neonPattern ?? "random";
+  const facadeColor = spec.color ?? random.pick(FACADE_COLORS);
+  const neonColor = spec.windowColor ?? random.pick(NEON_COLORS);
+  const isLit = createLitWindowTest(
+    pattern,
+    THREE.MathUtils.clamp(spec.litWindowRatio ?? LIT_WINDOW_RATIO, 0, 1),
+    random
+  );
+
+  const facade = new MeshBuilder();
+  const glass = new MeshBuilder();
+  const lit = new MeshBuilder();
+  const equipment = new MeshBuilder();
+
+  const tiers = planTiers(spec, inset);
+  tiers.forEach((tier) => {
+    const baseY = tier.firstFloor * floorHeight;
+    const height = tier.floors * floorHeight;
+    facade.addBox(0, baseY, 0, tier.width, height, tier.depth);
+    addTierWindows(tier, baseY, floorHeight, glass, lit, isLit);
+
+    // Neon band around the top edge (sides only, the roof stays clear)
+    if (pattern !== "none") {
+      addTierBand(tier, baseY + height - TRIM_HEIGHT / 2, lit);
+    }
+  });
+
+  const top = tiers[tiers.length - 1];
+  if (spec.rooftop ?? true) {
+    addRooftop(top, (top.firstFloor + top.floors) * floorHeight, equipment, lit, random);
+  }
+
+  const neonMaterial = new THREE.MeshStandardMaterial({
+    color: neonColor,
+    emissive: neonColor,
+    emissiveIntensity: 1.2,
+    roughness: 0.4,
+  });
+  neonMaterial.userData.cityLight = true;
+
+  const parts: Array<[string, MeshBuilder, THREE.Material]> = [
+    [
+      "facade",
+      facade,
+      new THREE.MeshStandardMaterial({ color: facadeColor, roughness: 0.85, metalness: 0.15 }),
+    ],
+    [
+      "glass",
+      glass,
+      new THREE.MeshStandardMaterial({ color: 0x0c1218, roughness: 0.15, metalness: 0.8 }),
+    ],
+    ["neon", lit, neonMaterial],
+    [
+      "equipment",
+      equipment,
+      new THREE.MeshStandardMaterial({ color: 0x555a60, roughness: 0.7, metalness: 0.4 }),
+    ],
+  ];
+
+  const building = new THREE.Group();
+  building.name = "procedural-building";
+  building.userData.procedural = true;
+  parts.forEach(([name, builder, material]) => {
+    if (builder.isEmpty()) {
+      material.dispose();
+      return;
+    }
+    const mesh = new THREE.Mesh(builder.toGeometry(), material);
+    mesh.name = name;
+    mesh.userData.procedural = true;
+    building.add(mesh);
+  });
+
+  return building;
+};
+
+/**
+ * Frees the geometries and materials of a generated building
+ * @param building A building returned by generateProceduralBuilding (or a clone of it)
+ */
+export const disposeProceduralBuilding = (building: THREE.Object3D): void => {
+  building.traverse((node) => {
+    if (!(node instanceof THREE.Mesh)) return;
+    node.geometry.dispose();
+    const materials = Array.isArray(node.material) ? node.material : [node.material];
+    materials.forEach((material) => material.dispose());
+  });
+};
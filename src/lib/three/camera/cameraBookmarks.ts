@@ -0,0 +1,253 @@
+import type { CameraController } from "./cameraController";
+import type { CameraBookmark, CameraView } from "../types";
+
+/**
+ * Camera bookmarks options
+ */
+export interface CameraBookmarksOptions {
+  /** Length of the animated move to a bookmark in seconds (default: 1.5) */
+  transitionDuration?: number;
+  /** Called when bookmarks are added, removed or replaced */
+  onChange?: (bookmarks: CameraBookmark[]) => void;
+}
+
+/** URL hash parameter holding the encoded view */
+const VIEW_HASH_PARAM = "view";
+
+/** Decimals kept for captured and encoded views (centimeters, hundredths of a degree) */
+const VIEW_PRECISION = 2;
+
+/**
+ * Rounds a number to the view precision
+ */
+const round = (value: number): number => Number(value.toFixed(VIEW_PRECISION));
+
+/**
+ * Rounds a view so bookmarks and links stay short and readable
+ * @param view The view to round
+ * @returns A rounded copy
+ */
+export const roundCameraView = (view: CameraView): CameraView => ({
+  position: view.position.map(round) as [number, number, number],
+  target: view.target.map(round) as [number, number, number],
+  ...(view.fov !== undefined ? { fov: round(view.fov) } : {}),
+});
+
+/**
+ * Named views the camera can fly back to, e.g. "the view from the
+ * intersection". The bookmark list is edited in place, so passing the
+ * config's `cameraBookmarks` array keeps the config up to date.
+ */
+export class CameraBookmarks {
+  private cameraController: CameraController;
+  private bookmarks: CameraBookmark[];
+  private options: Required<Omit<CameraBookmarksOptions, "onChange">> &
+    Pick<CameraBookmarksOptions, "onChange">;
+  /** Index of the bookmark last moved to, for cycling */
+  private currentIndex = -1;
+
+  /**
+   * Creates bookmarks for a camera
+   * @param cameraController The camera to move
+   * @param bookmarks Initial bookmarks (edited in place)
+   * @param options Bookmark options
+   */
+  constructor(
+    cameraController: CameraController,
+    bookmarks: CameraBookmark[] = [],
+    options: CameraBookmarksOptions = {}
+  ) {
+    this.cameraController = cameraController;
+    this.bookmarks = bookmarks;
+    this.options = {
+      transitionDuration: options.transitionDuration ?? 1.5,
+      onChange: options.onChange,
+    };
+  }
+
+  /**
+   * Replaces the bookmark list, e.g. with the one of a newly loaded config
+   * @param bookmarks The bookmarks (edited in place from now on)
+   */
+  setBookmarks(bookmarks: CameraBookmark[]): void {
+    this.bookmarks = bookmarks;
+    this.currentIndex = -1;
+    this.options.onChange?.(this.bookmarks);
+  }
+
+  getBookmarks(): CameraBookmark[] {
+    return this.bookmarks;
+  }
+
+  /**
+   * Gets a bookmark by id
+   * @param id The bookmark id
+   * @returns The bookmark or undefined if not found
+   */
+  get(id: string): CameraBookmark | undefined {
+    return this.bookmarks.find((bookmark) => bookmark.id === id);
+  }
+
+  /**
+   * Bookmarks the current view
+   * @param name Display name (default: none)
+   * @param id Bookmark id (default: a new "view-N" id); an existing bookmark with this id is replaced
+   * @returns The bookmark
+   */
+  add(name?: string, id?: string): CameraBookmark {
+    const bookmark: CameraBookmark = {
+      id: id ?? this.createId(),
+      ...(name !== undefined ? { name } : {}),
+      ...roundCameraView(this.cameraController.getView()),
+    };
+
+    const index = this.bookmarks.findIndex((item) => item.id === bookmark.id);
+    if (index >= 0) {
+      this.bookmarks[index] = bookmark;
+      this.currentIndex = index;
+    } else {
+      this.bookmarks.push(bookmark);
+      this.currentIndex = this.bookmarks.length - 1;
+    }
+
+    console.log(`Bookmarked camera view "${bookmark.name ?? bookmark.id}"`);
+    this.options.onChange?.(this.bookmarks);
+    return bookmark;
+  }
+
+  /**
+   * Removes a bookmark
+   * @param id The bookmark id
+   * @returns False if no bookmark has that id
+   */
+  remove(id: string): boolean {
+    const index = this.bookmarks.findIndex((bookmark) => bookmark.id === id);
+    if (index < 0) return false;
+
+    this.bookmarks.splice(index, 1);
+    if (this.currentIndex >= index) this.currentIndex--;
+    this.options.onChange?.(this.bookmarks);
+    return true;
+  }
+
+  /**
+   * Moves the camera to a bookmark
+   * @param id The bookmark id
+   * @param animate Fly there instead of jumping (default: true)
+   * @returns Promise resolving to false if no bookmark has that id
+   */
+  async goTo(id: string, animate = true): Promise<boolean> {
+    const index = this.bookmarks.findIndex((bookmark) => bookmark.id === id);
+    if (index < 0) {
+      console.warn(`Camera bookmark "${id}" not found`);
+      return false;
+    }
+    await this.goToIndex(index, animate);
+    return true;
+  }
+
+  /**
+   * Moves the camera to the bookmark after the last one visited
+   * @returns Promise resolving to the bookmark, or null if there are none
+   */
+  next(): Promise<CameraBookmark | null> {
+    return this.goToIndex(this.currentIndex + 1);
+  }
+
+  /**
+   * Moves the camera to the bookmark before the last one visited
+   * @returns Promise resolving to the bookmark, or null if there are none
+   */
+  previous(): Promise<CameraBookmark | null> {
+    return this.goToIndex(this.currentIndex < 0 ? -1 : this.currentIndex - 1);
+  }
+
+  /**
+   * Moves the camera to the bookmark at a list position (wrapping around)
+   * @param index Position in the bookmark list
+   * @param animate Fly there instead of jumping (default: true)
+   * @returns Promise resolving to the bookmark once the camera arrives, or null if there are none
+   */
+  async goToIndex(index: number, animate = true): Promise<CameraBookmark | null> {
+    if (this.bookmarks.length === 0) return null;
+
+    const count = this.bookmarks.length;
+    this.currentIndex = ((index % count) + count) % count;
+    const bookmark = this.bookmarks[this.currentIndex];
+    console.log(`Camera view: ${bookmark.name ?? bookmark.id}`);
+
+    if (animate) {
+      await this.cameraController.flyTo(bookmark, this.options.transitionDuration);
+    } else {
+      this.cameraController.setMode("orbit");
+      this.cameraController.setView(bookmark);
+    }
+    return bookmark;
+  }
+
+  /**
+   * Finds an unused "view-N" id
+   */
+  private createId(): string {
+    let number = this.bookmarks.length + 1;
+    while (this.get(`view-${number}`)) number++;
+    return `view-${number}`;
+  }
+}
+
+/**
+ * Writes a view into a URL hash, keeping any other hash parameters
+ * @param view The view to encode
+ * @param hash The current hash (default: none)
+ * @returns The new hash, e.g. "#view=0,1.7,30,0,10,0,65"
+ */
+export const encodeViewHash = (view: CameraView, hash = ""): string => {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const rounded = roundCameraView(view);
+  const values = [...rounded.position, ...rounded.target];
+  if (rounded.fov !== undefined) values.push(rounded.fov);
+  params.set(VIEW_HASH_PARAM, values.join(","));
+  // Keep the commas readable
+  return `#${params.toString().replace(/%2C/g, ",")}`;
+};
+
+/**
+ * Reads a view from a URL hash written by encodeViewHash
+ * @param hash The URL hash
+ * @returns The view, or null if the hash holds no valid view
+ */
+export const decodeViewHash = (hash: string): CameraView | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, "")).get(VIEW_HASH_PARAM);
+  if (!encoded) return null;
+
+  const values = encoded.split(",").map(Number);
+  if (
+    (values.length !== 6 && values.length !== 7) ||
+    !values.every((value) => Number.isFinite(value))
+  ) {
+    console.warn(`Ignoring invalid camera view in URL: ${encoded}`);
+    return null;
+  }
+
+  const [px, py, pz, tx, ty, tz, fov] = values;
+  return {
+    position: [px, py, pz],
+    target: [tx, ty, tz],
+    ...(fov !== undefined && fov > 0 && fov < 180 ? { fov } : {}),
+  };
+};
+
+/**
+ * Creates camera bookmarks
+ * @param cameraController The camera to move
+ * @param bookmarks Initial bookmarks (edited in place)
+ * @param options Bookmark options
+ * @returns A CameraBookmarks instance
+ */
+export const createCameraBookmarks = (
+  cameraController: CameraController,
+  bookmarks?: CameraBookmark[],
+  options?: CameraBookmarksOptions
+): CameraBookmarks => {
+  return new CameraBookmarks(cameraController, bookmarks, options);
+};
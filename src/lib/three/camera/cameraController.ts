@@ -0,0 +1,358 @@
+import * as THREE from "three";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import { WalkControls, type WalkControlsOptions } from "./walkControls";
+import {
+  CameraPathPlayer,
+  applyCameraEasing,
+  captureCameraKeyframe,
+  type CameraPathState,
+} from "./cameraPath";
+import type { CameraKeyframe, CameraPathConfig, CameraView } from "../types";
+
+/**
+ * How the camera is moved: orbiting a target or walking at eye level
+ */
+export type CameraMode = "orbit" | "walk";
+
+/**
+ * Camera controller options
+ */
+export interface CameraControllerOptions {
+  /** Vertical field of view in degrees (default: 65, the human eye is ~60-70°) */
+  fov?: number;
+  /** Aspect ratio (default: window aspect ratio) */
+  aspect?: number;
+  /** Near plane in meters (default: 0.1) */
+  near?: number;
+  /** Far plane in meters (default: 1000) */
+  far?: number;
+  /** Initial view (default: eye level, 30 m back, looking up at the buildings) */
+  view?: CameraView;
+  /** Closest orbit distance in meters (default: 1) */
+  minDistance?: number;
+  /** Farthest orbit distance in meters (default: 150) */
+  maxDistance?: number;
+  /** First-person walk mode settings */
+  walk?: WalkControlsOptions;
+  /** Called when the camera mode changes */
+  onModeChange?: (mode: CameraMode) => void;
+  /** Called when camera path playback starts, pauses, stops or finishes */
+  onPathStateChange?: (state: CameraPathState, path: CameraPathConfig | null) => void;
+}
+
+/** Distance ahead of the walker the orbit target is placed when leaving walk mode */
+const ORBIT_TARGET_DISTANCE = 10;
+
+/** Default length of animated view transitions in seconds */
+const TRANSITION_DURATION = 1.5;
+
+/**
+ * An animated move between two views in progress
+ */
+interface ViewTransition {
+  fromPosition: THREE.Vector3;
+  fromTarget: THREE.Vector3;
+  fromFov: number;
+  toPosition: THREE.Vector3;
+  toTarget: THREE.Vector3;
+  toFov: number;
+  elapsed: number;
+  duration: number;
+  /** Settles the promise returned by flyTo */
+  resolve: () => void;
+}
+
+/** Camera at human eye level (1.7 m), 30 m back, looking slightly up at the buildings */
+const DEFAULT_VIEW: CameraView = {
+  position: [0, 1.7, 30],
+  target: [0, 10, 0],
+};
+
+/**
+ * Owns the scene camera and switches between orbit controls and
+ * first-person walk controls. Camera paths are played in orbit mode.
+ */
+export class CameraController {
+  readonly camera: THREE.PerspectiveCamera;
+  readonly controls: OrbitControls;
+  readonly pathPlayer: CameraPathPlayer;
+  private domElement: HTMLElement;
+  private options: CameraControllerOptions;
+  private walkControls: WalkControls | null = null;
+  private mode: CameraMode = "orbit";
+  private transition: ViewTransition | null = null;
+
+  /**
+   * Creates the camera and orbit controls
+   * @param domElement Element receiving pointer input (usually the canvas)
+   * @param options Camera options
+   */
+  constructor(domElement: HTMLElement, options: CameraControllerOptions = {}) {
+    this.domElement = domElement;
+    this.options = options;
+
+    // Camera based on human scale
+    this.camera = new THREE.PerspectiveCamera(
+      options.fov ?? 65,
+      options.aspect ?? window.innerWidth / window.innerHeight,
+      options.near ?? 0.1, // Near plane at 10cm
+      options.far ?? 1000 // Far plane at 1km for distant buildings
+    );
+
+    this.controls = new OrbitControls(this.camera, domElement);
+    this.controls.enableDamping = true; // adds smooth damping effect
+    this.controls.dampingFactor = 0.05;
+
+    // Prevent going inside objects or too far from the city
+    this.controls.minDistance = options.minDistance ?? 1.0;
+    this.controls.maxDistance = options.maxDistance ?? 150;
+
+    // Flythroughs move the orbit target along with the camera, so orbiting
+    // resumes smoothly from wherever user input paused the path
+    this.pathPlayer = new CameraPathPlayer(this.camera, this.controls, {
+      onStateChange: options.onPathStateChange,
+    });
+
+    // Taking the mouse during a transition leaves the camera where it is
+    this.controls.addEventListener("start", this.handleControlsStart);
+
+    this.setView(options.view ?? DEFAULT_VIEW);
+  }
+
+  /**
+   * Updates the active controls - call this in your animation loop
+   * @param deltaSeconds Time since the last frame (drives walking and camera paths)
+   */
+  update(deltaSeconds = 0): void {
+    if (this.mode === "walk") {
+      this.walkControls?.update(deltaSeconds);
+    } else if (this.transition) {
+      this.updateTransition(deltaSeconds);
+    } else if (this.pathPlayer.isPlaying()) {
+      this.pathPlayer.update(deltaSeconds);
+    } else {
+      this.controls.update();
+    }
+  }
+
+  /**
+   * Switches between orbiting and walking. Walking starts on the ground
+   * below the camera; orbiting resumes around a point ahead of the walker.
+   * @param mode The camera mode
+   */
+  setMode(mode: CameraMode): void {
+    if (mode === this.mode) return;
+    this.mode = mode;
+
+    if (mode === "walk") {
+      this.cancelTransition();
+      this.pathPlayer.pause();
+      this.controls.enabled = false;
+      this.walkControls ??= new WalkControls(
+        this.camera,
+        this.domElement,
+        this.options.walk
+      );
+      this.walkControls.setEnabled(true);
+      this.walkControls.lock();
+    } else {
+      this.walkControls?.setEnabled(false);
+      const forward = this.camera.getWorldDirection(new THREE.Vector3());
+      this.controls.target
+        .copy(this.camera.position)
+        .addScaledVector(forward, ORBIT_TARGET_DISTANCE);
+      this.controls.enabled = true;
+      this.controls.update();
+    }
+
+    console.log(`Camera mode: ${mode}`);
+    this.options.onModeChange?.(mode);
+  }
+
+  getMode(): CameraMode {
+    return this.mode;
+  }
+
+  /**
+   * Switches to the other camera mode
+   * @returns The new mode
+   */
+  toggleMode(): CameraMode {
+    this.setMode(this.mode === "orbit" ? "walk" : "orbit");
+    return this.mode;
+  }
+
+  /**
+   * Flies the camera along a path, switching to orbit mode if needed
+   * @param path Path to play (default: resume the loaded path)
+   * @throws CameraPathLoadError if the path is invalid
+   */
+  playPath(path?: CameraPathConfig): void {
+    this.cancelTransition();
+    this.setMode("orbit");
+    this.pathPlayer.play(path);
+  }
+
+  /**
+   * Captures the current view as a camera path keyframe
+   * @param time Seconds from the start of the path
+   * @returns The keyframe, including the current field of view
+   */
+  captureKeyframe(time: number): CameraKeyframe {
+    return captureCameraKeyframe(this.camera, this.getTarget(), time);
+  }
+
+  /**
+   * Moves the camera to a view immediately, pausing any camera path
+   * @param view Camera position, the point it looks at and optionally the field of view
+   */
+  setView(view: CameraView): void {
+    this.cancelTransition();
+    this.pathPlayer.pause();
+    this.camera.position.set(...view.position);
+    this.controls.target.set(...view.target);
+    this.setFov(view.fov ?? this.camera.fov);
+    if (this.mode === "walk") {
+      this.camera.lookAt(this.controls.target);
+    } else {
+      this.controls.update();
+    }
+  }
+
+  /**
+   * Animates the camera to a view in orbit mode. Orbit input, setView or
+   * another transition ends it early.
+   * @param view Camera position, the point it looks at and optionally the field of view
+   * @param duration Length of the move in seconds (default: 1.5)
+   * @returns Promise resolving when the move ends, finished or not
+   */
+  flyTo(view: CameraView, duration = TRANSITION_DURATION): Promise<void> {
+    this.cancelTransition();
+    this.pathPlayer.pause();
+    this.setMode("orbit");
+
+    if (duration <= 0) {
+      this.setView(view);
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      this.transition = {
+        fromPosition: this.camera.position.clone(),
+        fromTarget: this.controls.target.clone(),
+        fromFov: this.camera.fov,
+        toPosition: new THREE.Vector3(...view.position),
+        toTarget: new THREE.Vector3(...view.target),
+        toFov: view.fov ?? this.camera.fov,
+        elapsed: 0,
+        duration,
+        resolve,
+      };
+    });
+  }
+
+  isTransitioning(): boolean {
+    return this.transition !== null;
+  }
+
+  /**
+   * Gets the current view
+   * @returns Camera position, the point it looks at and the field of view
+   */
+  getView(): CameraView {
+    return {
+      position: this.camera.position.toArray() as [number, number, number],
+      target: this.getTarget().toArray() as [number, number, number],
+      fov: this.camera.fov,
+    };
+  }
+
+  /**
+   * Gets the point the camera looks at. The orbit target isn't moved while
+   * walking, so walkers look at a point ahead of them.
+   */
+  private getTarget(): THREE.Vector3 {
+    if (this.mode !== "walk") return this.controls.target;
+    const forward = this.camera.getWorldDirection(new THREE.Vector3());
+    return forward.multiplyScalar(ORBIT_TARGET_DISTANCE).add(this.camera.position);
+  }
+
+  /**
+   * Advances the running transition
+   */
+  private updateTransition(deltaSeconds: number): void {
+    const transition = this.transition;
+    if (!transition) return;
+
+    transition.elapsed += deltaSeconds;
+    const progress = transition.elapsed / transition.duration;
+    const eased = applyCameraEasing("easeInOut", progress);
+
+    this.camera.position.lerpVectors(
+      transition.fromPosition,
+      transition.toPosition,
+      eased
+    );
+    this.controls.target.lerpVectors(transition.fromTarget, transition.toTarget, eased);
+    this.camera.lookAt(this.controls.target);
+    this.setFov(THREE.MathUtils.lerp(transition.fromFov, transition.toFov, eased));
+
+    if (progress >= 1) {
+      this.transition = null;
+      transition.resolve();
+    }
+  }
+
+  /**
+   * Ends the running transition where the camera is
+   */
+  private cancelTransition(): void {
+    const transition = this.transition;
+    this.transition = null;
+    transition?.resolve();
+  }
+
+  private setFov(fov: number): void {
+    if (fov === this.camera.fov) return;
+    this.camera.fov = fov;
+    this.camera.updateProjectionMatrix();
+  }
+
+  private handleControlsStart = (): void => {
+    this.cancelTransition();
+  };
+
+  /**
+   * Updates the projection after the viewport was resized
+   * @param width Viewport width in pixels
+   * @param height Viewport height in pixels
+   */
+  resize(width: number, height: number): void {
+    this.camera.aspect = width / height;
+    this.camera.updateProjectionMatrix();
+  }
+
+  /**
+   * Removes the control event listeners
+   */
+  dispose(): void {
+    this.cancelTransition();
+    this.controls.removeEventListener("start", this.handleControlsStart);
+    this.pathPlayer.dispose();
+    this.controls.dispose();
+    this.walkControls?.dispose();
+  }
+}
+
+/**
+ * Creates a camera controller
+ * @param domElement Element receiving pointer input (usually the canvas)
+ * @param options Camera options
+ * @returns A CameraController instance
+ */
+export const createCameraController = (
+  domElement: HTMLElement,
+  options?: CameraControllerOptions
+): CameraController => {
+  return new CameraController(domElement, options);
+};
@@ -0,0 +1,342 @@
+import * as THREE from "three";
+import type { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import type {
+  CameraKeyframe,
+  CameraPathConfig,
+  CameraPathEasing,
+} from "../types";
+import {
+  formatValidationErrors,
+  validateCameraPath,
+  type ConfigValidationError,
+} from "../utils/configValidator";
+
+/**
+ * Playback state of a camera path player
+ */
+export type CameraPathState = "stopped" | "playing" | "paused";
+
+/**
+ * Camera path player options
+ */
+export interface CameraPathPlayerOptions {
+  /** Called when playback starts, pauses, stops or finishes */
+  onStateChange?: (state: CameraPathState, path: CameraPathConfig | null) => void;
+}
+
+/**
+ * Error thrown when a camera path cannot be imported
+ */
+export class CameraPathLoadError extends Error {
+  readonly errors: ConfigValidationError[];
+
+  constructor(message: string, errors: ConfigValidationError[] = []) {
+    super(errors.length > 0 ? `${message}\n${formatValidationErrors(errors)}` : message);
+    this.name = "CameraPathLoadError";
+    this.errors = errors;
+  }
+}
+
+/** Easing curves mapping linear progress (0-1) to eased progress */
+const EASINGS: Record<CameraPathEasing, (t: number) => number> = {
+  linear: (t) => t,
+  easeIn: (t) => t * t * t,
+  easeOut: (t) => 1 - Math.pow(1 - t, 3),
+  easeInOut: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+};
+
+/**
+ * Applies an easing curve
+ * @param easing The easing curve
+ * @param progress Linear progress from 0 to 1
+ * @returns Eased progress from 0 to 1
+ */
+export const applyCameraEasing = (
+  easing: CameraPathEasing,
+  progress: number
+): number => EASINGS[easing](THREE.MathUtils.clamp(progress, 0, 1));
+
+/**
+ * Flies the camera along a spline through a path's keyframes.
+ *
+ * Position and target each follow a centripetal Catmull-Rom spline that
+ * passes through every keyframe at its time; the field of view is blended
+ * between keyframes. Easing is applied over the whole path, so a path
+ * starts and ends smoothly without slowing down at every keyframe.
+ * Orbit input pauses playback.
+ */
+export class CameraPathPlayer {
+  private camera: THREE.PerspectiveCamera;
+  private controls: OrbitControls;
+  private options: CameraPathPlayerOptions;
+  private path: CameraPathConfig | null = null;
+  private positionCurve: THREE.CatmullRomCurve3 | null = null;
+  private targetCurve: THREE.CatmullRomCurve3 | null = null;
+  private fovs: number[] = [];
+  private time = 0;
+  private state: CameraPathState = "stopped";
+
+  /**
+   * Creates a player for a camera and its orbit controls
+   * @param camera The camera to move
+   * @param controls Orbit controls whose target follows the path
+   * @param options Player options
+   */
+  constructor(
+    camera: THREE.PerspectiveCamera,
+    controls: OrbitControls,
+    options: CameraPathPlayerOptions = {}
+  ) {
+    this.camera = camera;
+    this.controls = controls;
+    this.options = options;
+
+    this.controls.addEventListener("start", this.handleControlsStart);
+  }
+
+  /**
+   * Loads a path and moves the camera to its first keyframe
+   * @param path The camera path
+   * @throws CameraPathLoadError if the path is invalid
+   */
+  load(path: CameraPathConfig): void {
+    const validation = validateCameraPath(path);
+    if (!validation.valid) {
+      throw new CameraPathLoadError(
+        `Invalid camera path (${validation.errors.length} errors)`,
+        validation.errors
+      );
+    }
+
+    const toVector = (point: [number, number, number]) => new THREE.Vector3(...point);
+    this.path = path;
+    this.positionCurve = new THREE.CatmullRomCurve3(
+      path.keyframes.map((keyframe) => toVector(keyframe.position)),
+      false,
+      "centripetal"
+    );
+    this.targetCurve = new THREE.CatmullRomCurve3(
+      path.keyframes.map((keyframe) => toVector(keyframe.target)),
+      false,
+      "centripetal"
+    );
+    // Keyframes without a field of view keep the camera's current one
+    const baseFov = this.camera.fov;
+    this.fovs = path.keyframes.map((keyframe) => keyframe.fov ?? baseFov);
+
+    this.setState("stopped");
+    this.seek(0);
+  }
+
+  /**
+   * Starts or resumes playback
+   * @param path Path to load first (default: the loaded path)
+   */
+  play(path?: CameraPathConfig): void {
+    if (path) this.load(path);
+    if (!this.path) {
+      console.warn("No camera path loaded");
+      return;
+    }
+    // Replay a finished path from the start
+    if (this.state === "stopped" && this.time >= this.getDuration()) {
+      this.seek(0);
+    }
+    this.setState("playing");
+  }
+
+  /**
+   * Pauses playback, leaving the camera where it is
+   */
+  pause(): void {
+    if (this.state === "playing") this.setState("paused");
+  }
+
+  /**
+   * Stops playback and rewinds to the start (the camera stays where it is)
+   */
+  stop(): void {
+    this.time = 0;
+    this.setState("stopped");
+  }
+
+  /**
+   * Moves the camera to a point in time on the path
+   * @param time Seconds from the first keyframe
+   */
+  seek(time: number): void {
+    if (!this.path) return;
+    this.time = THREE.MathUtils.clamp(time, 0, this.getDuration());
+    this.apply();
+  }
+
+  /**
+   * Advances playback - call this in your animation loop
+   * @param deltaSeconds Time since the last frame
+   */
+  update(deltaSeconds: number): void {
+    if (this.state !== "playing" || !this.path) return;
+
+    const duration = this.getDuration();
+    this.time += deltaSeconds;
+    if (this.time >= duration) {
+      if (this.path.loop) {
+        this.time %= duration;
+      } else {
+        this.time = duration;
+        this.apply();
+        this.setState("stopped");
+        return;
+      }
+    }
+    this.apply();
+  }
+
+  getState(): CameraPathState {
+    return this.state;
+  }
+
+  isPlaying(): boolean {
+    return this.state === "playing";
+  }
+
+  getPath(): CameraPathConfig | null {
+    return this.path;
+  }
+
+  /**
+   * Gets the playback position
+   * @returns Seconds from the first keyframe
+   */
+  getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * Gets the length of the loaded path
+   * @returns Seconds from the first to the last keyframe, or 0 if no path is loaded
+   */
+  getDuration(): number {
+    if (!this.path) return 0;
+    const keyframes = this.path.keyframes;
+    return keyframes[keyframes.length - 1].time - keyframes[0].time;
+  }
+
+  /**
+   * Places the camera at the current playback time
+   */
+  private apply(): void {
+    if (!this.path || !this.positionCurve || !this.targetCurve) return;
+
+    const keyframes = this.path.keyframes;
+    const duration = this.getDuration();
+    const eased = applyCameraEasing(this.path.easing ?? "easeInOut", this.time / duration);
+    const time = keyframes[0].time + eased * duration;
+
+    // Find the keyframe segment and map it onto the spline, where every
+    // segment covers an equal share of the curve parameter
+    let segment = 0;
+    while (segment < keyframes.length - 2 && time > keyframes[segment + 1].time) {
+      segment++;
+    }
+    const from = keyframes[segment];
+    const to = keyframes[segment + 1];
+    const local = THREE.MathUtils.clamp((time - from.time) / (to.time - from.time), 0, 1);
+    const t = (segment + local) / (keyframes.length - 1);
+
+    this.positionCurve.getPoint(t, this.camera.position);
+    this.targetCurve.getPoint(t, this.controls.target);
+    this.camera.lookAt(this.controls.target);
+
+    const fov = THREE.MathUtils.lerp(this.fovs[segment], this.fovs[segment + 1], local);
+    if (fov !== this.camera.fov) {
+      this.camera.fov = fov;
+      this.camera.updateProjectionMatrix();
+    }
+  }
+
+  private setState(state: CameraPathState): void {
+    if (state === this.state) return;
+    this.state = state;
+    this.options.onStateChange?.(state, this.path);
+  }
+
+  /**
+   * Dragging, panning or zooming takes the camera back from the path
+   */
+  private handleControlsStart = (): void => {
+    this.pause();
+  };
+
+  /**
+   * Removes the orbit controls listener
+   */
+  dispose(): void {
+    this.controls.removeEventListener("start", this.handleControlsStart);
+  }
+}
+
+/**
+ * Captures a camera's current view as a keyframe
+ * @param camera The camera
+ * @param target The point the camera looks at (e.g. the orbit target)
+ * @param time Seconds from the start of the path
+ * @returns The keyframe
+ */
+export const captureCameraKeyframe = (
+  camera: THREE.PerspectiveCamera,
+  target: THREE.Vector3,
+  time: number
+): CameraKeyframe => ({
+  time,
+  position: camera.position.toArray() as [number, number, number],
+  target: target.toArray() as [number, number, number],
+  fov: camera.fov,
+});
+
+/**
+ * Serializes a camera path to a JSON string
+ * @param path The camera path
+ * @returns Pretty-printed JSON
+ */
+export const stringifyCameraPath = (path: CameraPathConfig): string =>
+  JSON.stringify(path, null, 2);
+
+/**
+ * Parses a camera path from a JSON string
+ * @param json The JSON text
+ * @returns The validated camera path
+ * @throws CameraPathLoadError if the JSON or the path is invalid
+ */
+export const parseCameraPath = (json: string): CameraPathConfig => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new CameraPathLoadError(`Camera path is not valid JSON: ${error}`);
+  }
+
+  const validation = validateCameraPath(raw);
+  if (!validation.valid) {
+    throw new CameraPathLoadError(
+      `Invalid camera path (${validation.errors.length} errors)`,
+      validation.errors
+    );
+  }
+  return raw as CameraPathConfig;
+};
+
+/**
+ * Creates a camera path player
+ * @param camera The camera to move
+ * @param controls Orbit controls whose target follows the path
+ * @param options Player options
+ * @returns A CameraPathPlayer instance
+ */
+export const createCameraPathPlayer = (
+  camera: THREE.PerspectiveCamera,
+  controls: OrbitControls,
+  options?: CameraPathPlayerOptions
+): CameraPathPlayer => {
+  return new CameraPathPlayer(camera, controls, options);
+};
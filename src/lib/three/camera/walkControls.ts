@@ -0,0 +1,273 @@
+import * as THREE from "three";
+import { PointerLockControls } from "three/examples/jsm/controls/PointerLockControls.js";
+
+/**
+ * Walk controls options
+ */
+export interface WalkControlsOptions {
+  /** Eye height above the ground in meters (default: 1.7) */
+  eyeHeight?: number;
+  /** Walking speed in meters per second (default: 1.4, a typical walking pace) */
+  walkSpeed?: number;
+  /** Speed multiplier while Shift is held (default: 2.5) */
+  runMultiplier?: number;
+  /** Downward acceleration in m/s² (default: 9.81) */
+  gravity?: number;
+  /** Radius of the walker's body in meters (default: 0.3) */
+  radius?: number;
+  /** Height of the ground plane (default: 0) */
+  groundHeight?: number;
+  /** Boxes the walker can't walk through, e.g. building bounds */
+  getObstacles?: () => Iterable<THREE.Box3>;
+}
+
+/** Highest ledge (curbs, steps) the walker climbs without jumping */
+const STEP_HEIGHT = 0.3;
+/** Headroom above the eyes counted as part of the body */
+const HEAD_CLEARANCE = 0.15;
+/** Longest frame simulated in one step, so a stalled tab doesn't tunnel through walls */
+const MAX_STEP = 0.1;
+
+/** Movement keys by KeyboardEvent.code: [forward, right] */
+const MOVE_KEYS: Record<string, [number, number]> = {
+  KeyW: [1, 0],
+  ArrowUp: [1, 0],
+  KeyS: [-1, 0],
+  ArrowDown: [-1, 0],
+  KeyA: [0, -1],
+  ArrowLeft: [0, -1],
+  KeyD: [0, 1],
+  ArrowRight: [0, 1],
+};
+
+/**
+ * First-person controls at eye level: pointer-lock mouse look, WASD (or
+ * arrow key) movement, gravity and collision with obstacle boxes.
+ *
+ * Obstacles lower than a step are walked onto, so the walker can climb
+ * curbs and stands on whatever box is below them.
+ */
+export class WalkControls {
+  readonly pointerLock: PointerLockControls;
+  private camera: THREE.Camera;
+  private domElement: HTMLElement;
+  private options: Required<Omit<WalkControlsOptions, "getObstacles">> &
+    Pick<WalkControlsOptions, "getObstacles">;
+  private pressedKeys = new Set<string>();
+  private verticalSpeed = 0;
+  private enabled = false;
+  private forward = new THREE.Vector3();
+  private right = new THREE.Vector3();
+  private move = new THREE.Vector3();
+
+  /**
+   * Creates walk controls (disabled until setEnabled(true))
+   * @param camera The camera to move
+   * @param domElement Element that captures the pointer when clicked
+   * @param options Walk options
+   */
+  constructor(
+    camera: THREE.Camera,
+    domElement: HTMLElement,
+    options: WalkControlsOptions = {}
+  ) {
+    this.camera = camera;
+    this.domElement = domElement;
+    this.options = {
+      eyeHeight: options.eyeHeight ?? 1.7,
+      walkSpeed: options.walkSpeed ?? 1.4,
+      runMultiplier: options.runMultiplier ?? 2.5,
+      gravity: options.gravity ?? 9.81,
+      radius: options.radius ?? 0.3,
+      groundHeight: options.groundHeight ?? 0,
+      getObstacles: options.getObstacles,
+    };
+
+    this.pointerLock = new PointerLockControls(camera, domElement);
+    this.pointerLock.enabled = false;
+
+    // Keys released while the pointer was free never reach us
+    this.pointerLock.addEventListener("unlock", () => this.pressedKeys.clear());
+  }
+
+  /**
+   * Turns the controls on or off. Turning them on places the camera on the
+   * ground at eye height, facing the same horizontal direction.
+   * @param enabled Whether the controls should be active
+   */
+  setEnabled(enabled: boolean): void {
+    if (this.enabled === enabled) return;
+    this.enabled = enabled;
+    this.pointerLock.enabled = enabled;
+    this.pressedKeys.clear();
+    this.verticalSpeed = 0;
+
+    if (enabled) {
+      const position = this.camera.position;
+      this.camera.getWorldDirection(this.forward);
+      position.y = this.options.groundHeight + this.options.eyeHeight;
+      this.camera.lookAt(
+        position.x + this.forward.x,
+        position.y,
+        position.z + this.forward.z
+      );
+
+      this.domElement.addEventListener("click", this.handleClick);
+      window.addEventListener("keydown", this.handleKeyDown);
+      window.addEventListener("keyup", this.handleKeyUp);
+    } else {
+      if (this.pointerLock.isLocked) this.pointerLock.unlock();
+      this.domElement.removeEventListener("click", this.handleClick);
+      window.removeEventListener("keydown", this.handleKeyDown);
+      window.removeEventListener("keyup", this.handleKeyUp);
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Captures the mouse for looking around (needs a user gesture, e.g. a key press or click)
+   */
+  lock(): void {
+    if (this.enabled && !this.pointerLock.isLocked) {
+      this.pointerLock.lock();
+    }
+  }
+
+  isLocked(): boolean {
+    return this.pointerLock.isLocked;
+  }
+
+  /**
+   * Moves the walker - call this in your animation loop
+   * @param deltaSeconds Time since the last frame
+   */
+  update(deltaSeconds: number): void {
+    if (!this.enabled) return;
+    const delta = Math.min(deltaSeconds, MAX_STEP);
+    if (delta <= 0) return;
+
+    const position = this.camera.position;
+    const obstacles = Array.from(this.options.getObstacles?.() ?? []);
+
+    // Horizontal movement relative to where the camera looks, only while
+    // the mouse is captured
+    this.move.set(0, 0, 0);
+    if (this.pointerLock.isLocked) {
+      this.camera.getWorldDirection(this.forward);
+      this.forward.y = 0;
+      this.forward.normalize();
+      this.right.crossVectors(this.forward, this.camera.up);
+
+      this.pressedKeys.forEach((code) => {
+        const [forward, right] = MOVE_KEYS[code] ?? [0, 0];
+        this.move.addScaledVector(this.forward, forward);
+        this.move.addScaledVector(this.right, right);
+      });
+
+      const running =
+        this.pressedKeys.has("ShiftLeft") || this.pressedKeys.has("ShiftRight");
+      const speed =
+        this.options.walkSpeed * (running ? this.options.runMultiplier : 1);
+      if (this.move.lengthSq() > 0) {
+        this.move.normalize().multiplyScalar(speed * delta);
+      }
+    }
+
+    // Move one axis at a time so walls can be slid along
+    const startedInside = this.collides(position, obstacles);
+    (["x", "z"] as const).forEach((axis) => {
+      if (this.move[axis] === 0) return;
+      position[axis] += this.move[axis];
+      if (!startedInside && this.collides(position, obstacles)) {
+        position[axis] -= this.move[axis];
+      }
+    });
+
+    // Gravity down to the ground or the top of whatever is underfoot
+    const floor = this.getFloorHeight(position, obstacles) + this.options.eyeHeight;
+    this.verticalSpeed -= this.options.gravity * delta;
+    position.y += this.verticalSpeed * delta;
+    if (position.y <= floor) {
+      position.y = floor;
+      this.verticalSpeed = 0;
+    }
+  }
+
+  /**
+   * Checks whether the walker's body at a position overlaps an obstacle it can't step onto
+   */
+  private collides(position: THREE.Vector3, obstacles: THREE.Box3[]): boolean {
+    const feet = position.y - this.options.eyeHeight;
+    const head = position.y + HEAD_CLEARANCE;
+    const radius = this.options.radius;
+
+    return obstacles.some(
+      (box) =>
+        box.max.y > feet + STEP_HEIGHT &&
+        box.min.y < head &&
+        position.x > box.min.x - radius &&
+        position.x < box.max.x + radius &&
+        position.z > box.min.z - radius &&
+        position.z < box.max.z + radius
+    );
+  }
+
+  /**
+   * Finds the height the walker stands on: the ground or the highest
+   * obstacle top within a step of their feet
+   */
+  private getFloorHeight(position: THREE.Vector3, obstacles: THREE.Box3[]): number {
+    const feet = position.y - this.options.eyeHeight;
+    const radius = this.options.radius;
+
+    return obstacles.reduce((floor, box) => {
+      const underfoot =
+        box.max.y <= feet + STEP_HEIGHT &&
+        position.x > box.min.x - radius &&
+        position.x < box.max.x + radius &&
+        position.z > box.min.z - radius &&
+        position.z < box.max.z + radius;
+      return underfoot ? Math.max(floor, box.max.y) : floor;
+    }, this.options.groundHeight);
+  }
+
+  private handleClick = (): void => {
+    this.lock();
+  };
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (MOVE_KEYS[event.code] || event.code.startsWith("Shift")) {
+      this.pressedKeys.add(event.code);
+    }
+  };
+
+  private handleKeyUp = (event: KeyboardEvent): void => {
+    this.pressedKeys.delete(event.code);
+  };
+
+  /**
+   * Releases the pointer and removes all event listeners
+   */
+  dispose(): void {
+    this.setEnabled(false);
+    this.pointerLock.dispose();
+  }
+}
+
+/**
+ * Creates walk controls
+ * @param camera The camera to move
+ * @param domElement Element that captures the pointer when clicked
+ * @param options Walk options
+ * @returns A WalkControls instance
+ */
+export const createWalkControls = (
+  camera: THREE.Camera,
+  domElement: HTMLElement,
+  options?: WalkControlsOptions
+): WalkControls => {
+  return new WalkControls(camera, domElement, options);
+};
@@ -274,6 +274,7 @@ export class PerformanceTest {
       if (
         !(object instanceof THREE.Camera) &&
         object.userData.type !== "building" &&
+        object.userData.type !== "buildingBatch" &&
         object.parent === this.scene
       ) {
         objectsToRemove.push(object);
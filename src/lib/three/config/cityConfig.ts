@@ -1,4 +1,4 @@
-import type { CityConfig } from "../types";
+import type { CityConfig, WeatherConfig } from "../types";
 
 /**
  * Human scale reference (in meters):
@@ -11,6 +11,17 @@ import type { CityConfig } from "../types";
  * - Distance between street lights: ~20-30 meters
  */
 
+/**
+ * Weather shared by the default city and the quality presets
+ */
+const defaultWeather: WeatherConfig = {
+  enabled: false, // Clear skies unless enabled
+  type: "rain",
+  transitionSeconds: 5,
+  maxRainDrops: 8000,
+  rainArea: 60, // Rain only falls around the camera
+};
+
 /**
  * Default city configuration with building placements and environment settings
  */
@@ -18,31 +29,47 @@ export const cityConfig: CityConfig = {
   // Building configurations
   buildings: [
     // {
+    //   id: "cyberpunk-apartment-1",
     //   modelPath:
     //     "./src/assets/models/buildings/cyberpunk-apartment-building/cyberpunk-apartment-building.glb",
-    //   position: [20, 22, 14], // Center of the scene
-    //   scale: [45, 45, 45], // Using the model's original scale (assuming it's already in meters)
+    //   position: [20, 0, 14], // Center of the scene
+    //   scale: [1, 1, 1],
     //   rotation: [0, 0, 0],
+    //   targetHeight: 45, // Authored about one unit tall, so give it a real height
+    //   anchor: "base", // The model is authored around its center
     // },
     {
+      id: "high-rise-1",
+      name: "High-rise",
+      tags: ["tower"],
       modelPath:
         "./src/assets/models/buildings/high-rise-building/high-rise-building.glb",
-      position: [10, 1, 15], // Center of the scene
-      scale: [1, 1, 1], // Using the model's original scale (assuming it's already in meters)
+      position: [10, 0, 15], // Center of the scene
+      scale: [1, 1, 1], // Authored in meters (see the model asset report)
       rotation: [0, 0, 0],
+      lod: {
+        impostorDistance: 140, // Box impostor near the edge of the orbit range
+      },
     },
     {
+      id: "blue-skyscraper-1",
+      name: "Blue skyscraper",
+      tags: ["tower"],
       modelPath:
         "./src/assets/models/buildings/blue-skyscraper-building/blue-skyscrapper-building.glb",
       position: [30, 0, 14], // Center of the scene
-      scale: [1, 1, 1], // Using the model's original scale (assuming it's already in meters)
+      scale: [1, 1, 1], // Authored in meters (see the model asset report)
       rotation: [0, 0, 0],
+      lod: {
+        impostorDistance: 140,
+      },
     },
     // {
+    //   id: "brutalist-1",
     //   modelPath:
     //     "./src/assets/models/buildings/brutalist-building2/brutalist_building_2.gltf",
     //   position: [30, 0, 40], // Center of the scene
-    //   scale: [0.5, 0.5, 0.5], // Using the model's original scale (assuming it's already in meters)
+    //   scale: [0.5, 0.5, 0.5], // Authored about 130 m tall
     //   rotation: [0, 0, 0],
     // },
   ],
@@ -57,30 +84,39 @@ export const cityConfig: CityConfig = {
       roughness: 1,
       includeRoads: true,
       roadColor: 0x333333,
+      roads: {
+        layout: "grid",
+        blockSize: 80, // 80 meter city blocks between road centerlines
+        width: 10, // Standard two-lane road
+        lanes: 2,
+        sidewalkWidth: 3,
+        curbHeight: 0.15,
+        sidewalkColor: 0x3a3a3a,
+        curbColor: 0x555555,
+        markingColor: 0xbbbbbb,
+        laneMarkings: true,
+      },
     },
 
-    // Street lights configuration - positioned along streets at human scale
+    // Street lights configuration - placed along the road network at human scale
     streetLights: {
       enabled: true,
+      placement: "auto",
       intensity: 1,
       distance: 15, // 15 meter light radius (typical street light coverage)
       color: 0xffffcc,
       shadowResolution: 512,
-      positions: [
-        // Street lights spaced roughly 20 meters apart along roads
-        { x: -15, z: -5, rotation: 0 },
-        { x: 5, z: -5, rotation: 0 },
-        { x: 25, z: -5, rotation: 0 },
-        { x: -15, z: 5, rotation: 0 },
-        { x: 5, z: 5, rotation: 0 },
-        { x: 25, z: 5, rotation: 0 },
-        { x: -5, z: -15, rotation: Math.PI / 2 },
-        { x: -5, z: 5, rotation: Math.PI / 2 },
-        { x: -5, z: 25, rotation: Math.PI / 2 },
-        { x: 5, z: -15, rotation: Math.PI / 2 },
-        { x: 5, z: 5, rotation: Math.PI / 2 },
-        { x: 5, z: 25, rotation: Math.PI / 2 },
-      ],
+      maxActiveLights: 8, // Only the poles nearest the camera get real lights
+      maxShadowLights: 2,
+      autoPlacement: {
+        spacing: 25, // Distance between street lights: ~20-30 meters
+        sideOffset: 0.5, // Just behind the curb
+        intersectionClearance: 4,
+        buildingClearance: 1,
+        bothSides: true,
+        staggered: true,
+        maxDistanceFromCenter: 60, // Light the central blocks only
+      },
     },
 
     // Lighting configuration
@@ -109,7 +145,15 @@ export const cityConfig: CityConfig = {
         color: 0x090909,
         density: 0.003, // Adjusted for human scale distances (visible up to ~300m)
       },
+      timeOfDay: {
+        enabled: false, // Off: the static lights above; enable for the day/night cycle
+        hours: 12, // Noon when enabled; e.g. 22 for night with street lights and neon on
+        timeScale: 0, // Static; e.g. 0.1 runs a full day in 4 minutes
+      },
     },
+
+    // Weather configuration
+    weather: defaultWeather,
   },
   // Texture optimization settings for default mode
   textureOptimization: {
@@ -119,6 +163,36 @@ export const cityConfig: CityConfig = {
     optionalTextures: ["roughnessMap", "metalnessMap", "aoMap"],
     disableTexturesWhenOverLimit: true,
   },
+  // Buildings sharing a model and textures are drawn as instances
+  instancing: {
+    enabled: true,
+    minInstances: 2,
+  },
+  // Rest every model's base on the ground, whatever height it was authored at
+  snapToGround: true,
+  // Demo flythrough: down the street at eye level, then up over the rooftops
+  // and back to the start (city.playCameraPath("flythrough"))
+  cameraPaths: [
+    {
+      id: "flythrough",
+      name: "City flythrough",
+      easing: "easeInOut",
+      loop: true,
+      keyframes: [
+        { time: 0, position: [0, 1.7, 30], target: [0, 10, 0], fov: 65 },
+        { time: 6, position: [20, 2, 5], target: [30, 8, -10], fov: 55 },
+        { time: 12, position: [40, 35, 40], target: [20, 5, 10], fov: 70 },
+        { time: 18, position: [-20, 25, 45], target: [10, 5, 10], fov: 65 },
+        { time: 24, position: [0, 1.7, 30], target: [0, 10, 0], fov: 65 },
+      ],
+    },
+  ],
+  // Named views, cycled with '[' and ']' (add more with 'M')
+  cameraBookmarks: [
+    { id: "street", name: "Street level", position: [0, 1.7, 30], target: [0, 10, 0], fov: 65 },
+    { id: "intersection", name: "The intersection", position: [20, 1.7, 5], target: [30, 6, -10], fov: 60 },
+    { id: "skyline", name: "Skyline", position: [60, 45, 60], target: [20, 5, 10], fov: 55 },
+  ],
 };
 
 /**
@@ -131,6 +205,8 @@ export const performanceConfig: CityConfig = {
     streetLights: {
       ...cityConfig.environment.streetLights,
       enabled: false, // Disable street lights for performance
+      maxActiveLights: 4, // Fewer real lights, the rest only glow
+      maxShadowLights: 0, // No street light shadows for performance
     },
     lighting: {
       ...cityConfig.environment.lighting,
@@ -143,6 +219,10 @@ export const performanceConfig: CityConfig = {
         enabled: false, // Disable fog for performance
       },
     },
+    weather: {
+      ...defaultWeather,
+      maxRainDrops: 2000, // Sparser rain for performance
+    },
   },
   // Texture optimization settings for performance mode
   textureOptimization: {
@@ -182,6 +262,12 @@ export const highQualityConfig: CityConfig = {
       ...cityConfig.environment.streetLights,
       shadowResolution: 1024, // Higher resolution shadows
       intensity: 1.5, // Brighter lights
+      maxActiveLights: 16,
+      maxShadowLights: 4,
+    },
+    weather: {
+      ...defaultWeather,
+      maxRainDrops: 16000, // Denser rain
     },
   },
   // Texture optimization settings for high quality mode
@@ -0,0 +1,64 @@
+import type {
+  CityConfig,
+  EnvironmentConfigPatch,
+  QualityLevel,
+  TextureOptimizationConfig,
+} from "../types";
+import { cityConfig, highQualityConfig, performanceConfig } from "./cityConfig";
+
+/**
+ * Quality levels from cheapest to most expensive
+ */
+export const QUALITY_LEVELS: QualityLevel[] = ["low", "default", "high"];
+
+/**
+ * Preset configuration for each quality level
+ */
+export const qualityConfigs: Record<QualityLevel, CityConfig> = {
+  low: performanceConfig,
+  default: cityConfig,
+  high: highQualityConfig,
+};
+
+/**
+ * The rendering-cost settings of a quality preset, without its layout
+ */
+export interface QualitySettings {
+  environment: EnvironmentConfigPatch;
+  textureOptimization?: TextureOptimizationConfig;
+}
+
+/**
+ * Picks the settings that trade quality for speed from a quality preset.
+ * Ground, roads, colors and time of day are left out, so switching quality
+ * keeps the loaded layout and its look.
+ * @param level The quality level
+ * @returns The settings to apply to a live city
+ */
+export const getQualitySettings = (level: QualityLevel): QualitySettings => {
+  const { environment, textureOptimization } = qualityConfigs[level];
+  const { directional, fog } = environment.lighting;
+  const streetLights = environment.streetLights;
+
+  return {
+    environment: {
+      lighting: {
+        directional: {
+          shadowEnabled: directional.shadowEnabled,
+          shadowResolution: directional.shadowResolution,
+        },
+        fog: { enabled: fog.enabled },
+      },
+      streetLights: {
+        enabled: streetLights.enabled,
+        shadowResolution: streetLights.shadowResolution,
+        maxActiveLights: streetLights.maxActiveLights,
+        maxShadowLights: streetLights.maxShadowLights,
+      },
+      ...(environment.weather && {
+        weather: { maxRainDrops: environment.weather.maxRainDrops },
+      }),
+    },
+    textureOptimization,
+  };
+};
@@ -0,0 +1,577 @@
+import * as THREE from "three";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import { TransformControls } from "three/examples/jsm/controls/TransformControls.js";
+import type { CityBuilder } from "../builders/cityBuilder";
+import type { BuildingPlacement } from "../types";
+import { stringifyCityConfig } from "../utils/cityConfigSerializer";
+import { isEditableTarget } from "../utils/keyboard";
+import type { BuildingTransform, CommandHistory } from "./commandHistory";
+
+/**
+ * Gizmo mode of the building editor
+ */
+export type BuildingEditorMode = "translate" | "rotate" | "scale";
+
+/**
+ * What the editor does with a building dropped onto another building or a road:
+ * keep it there with a warning, put it back, or push it clear
+ */
+export type OverlapPolicy = "allow" | "refuse" | "nudge";
+
+/**
+ * Building editor options
+ */
+export interface BuildingEditorOptions {
+  /** Grid step in meters for moving buildings (null disables snapping) */
+  translationSnap?: number | null;
+  /** Rotation step in radians (null disables snapping) */
+  rotationSnap?: number | null;
+  /** Scale step (null disables snapping) */
+  scaleSnap?: number | null;
+  /** Size in meters of the helper grid shown while editing */
+  gridSize?: number;
+  /** Handling of buildings dropped onto other buildings or roads (default: "allow") */
+  overlapPolicy?: OverlapPolicy;
+  /** Gap in meters buildings must keep to count as apart (default: 0) */
+  overlapMargin?: number;
+  /** Command history that records edits for undo/redo */
+  history?: CommandHistory;
+  /** Called when the selection changes */
+  onSelectionChanged?: (id: string | null) => void;
+  /** Called after a transform has been written back to the city configuration */
+  onBuildingTransformed?: (placement: BuildingPlacement) => void;
+}
+
+/** Pointer travel (in pixels) below which a press counts as a click */
+const CLICK_TOLERANCE = 4;
+
+/** Order the O key cycles through the overlap policies */
+const OVERLAP_POLICIES: OverlapPolicy[] = ["allow", "refuse", "nudge"];
+
+/** Pushes tried before a nudged building that is still stuck is put back */
+const MAX_NUDGE_STEPS = 8;
+
+/** Extra distance a nudge moves past the overlap so the footprints don't touch */
+const NUDGE_CLEARANCE = 0.01;
+
+/**
+ * Rounds a number to remove floating point noise from gizmo transforms
+ */
+const roundValue = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * Interactive editor for selecting buildings and changing their transforms
+ * with translate/rotate/scale gizmos.
+ *
+ * Keyboard shortcuts while enabled:
+ * - W / E / R: translate / rotate / scale
+ * - Q: toggle world/local space
+ * - G: toggle grid snapping
+ * - O: cycle the overlap policy (allow, refuse, nudge)
+ * - Delete: remove the selected building
+ * - Escape: clear the selection
+ * - Ctrl+Z / Ctrl+Shift+Z: undo / redo (when a command history is given)
+ * - Ctrl+S: download the edited city layout as JSON
+ */
+export class BuildingEditor {
+  private camera: THREE.Camera;
+  private domElement: HTMLElement;
+  private scene: THREE.Scene;
+  private orbitControls: OrbitControls;
+  private cityBuilder: CityBuilder;
+  private options: Required<
+    Omit<
+      BuildingEditorOptions,
+      "onSelectionChanged" | "onBuildingTransformed" | "history"
+    >
+  > &
+    Pick<
+      BuildingEditorOptions,
+      "onSelectionChanged" | "onBuildingTransformed" | "history"
+    >;
+  private transformControls: TransformControls;
+  private grid: THREE.GridHelper;
+  private selectionBox: THREE.BoxHelper | null = null;
+  private raycaster = new THREE.Raycaster();
+  private pointer = new THREE.Vector2();
+  private pointerDownPosition: { x: number; y: number } | null = null;
+  private selectedId: string | null = null;
+  private dragStartTransform: BuildingTransform | null = null;
+  private snapping = true;
+  private enabled = false;
+
+  /**
+   * Creates a building editor
+   * @param camera The camera used for picking
+   * @param domElement The renderer's canvas
+   * @param scene The Three.js scene
+   * @param orbitControls The orbit controls to suspend while dragging gizmos
+   * @param cityBuilder The city builder owning the buildings
+   * @param options Editor options
+   */
+  constructor(
+    camera: THREE.Camera,
+    domElement: HTMLElement,
+    scene: THREE.Scene,
+    orbitControls: OrbitControls,
+    cityBuilder: CityBuilder,
+    options: BuildingEditorOptions = {}
+  ) {
+    this.camera = camera;
+    this.domElement = domElement;
+    this.scene = scene;
+    this.orbitControls = orbitControls;
+    this.cityBuilder = cityBuilder;
+    this.options = {
+      translationSnap: options.translationSnap ?? 1,
+      rotationSnap: options.rotationSnap ?? THREE.MathUtils.degToRad(15),
+      scaleSnap: options.scaleSnap ?? 0.1,
+      gridSize: options.gridSize ?? 200,
+      overlapPolicy: options.overlapPolicy ?? "allow",
+      overlapMargin: options.overlapMargin ?? 0,
+      history: options.history,
+      onSelectionChanged: options.onSelectionChanged,
+      onBuildingTransformed: options.onBuildingTransformed,
+    };
+
+    this.transformControls = new TransformControls(camera, domElement);
+    this.transformControls.enabled = false;
+    this.transformControls.addEventListener("dragging-changed", (event) => {
+      // Don't orbit the camera while a gizmo is being dragged
+      this.orbitControls.enabled = !event.value;
+
+      if (event.value) {
+        this.dragStartTransform = this.getSelectedTransform();
+      } else {
+        this.commitTransform().catch((error) =>
+          console.error("Failed to apply the building transform:", error)
+        );
+      }
+    });
+    this.transformControls.addEventListener("objectChange", () => {
+      // Instanced buildings follow their proxy object
+      if (this.selectedId) {
+        this.cityBuilder.syncBuildingTransform(this.selectedId);
+      }
+      this.selectionBox?.update();
+    });
+    this.applySnapping();
+
+    // Helper grid matching the translation snap step
+    const divisions = Math.min(
+      400,
+      Math.round(this.options.gridSize / (this.options.translationSnap || 1))
+    );
+    this.grid = new THREE.GridHelper(this.options.gridSize, divisions, 0x00aaff, 0x224455);
+    this.grid.position.y = 0.03; // Above roads and intersections
+    this.grid.visible = false;
+  }
+
+  /**
+   * Enables or disables edit mode
+   * @param enabled Whether edit mode should be active
+   */
+  setEnabled(enabled: boolean): void {
+    if (this.enabled === enabled) return;
+    this.enabled = enabled;
+
+    if (enabled) {
+      this.scene.add(this.grid);
+      this.scene.add(this.transformControls.getHelper());
+      this.transformControls.enabled = true;
+      this.grid.visible = true;
+      this.domElement.addEventListener("pointerdown", this.handlePointerDown);
+      this.domElement.addEventListener("pointerup", this.handlePointerUp);
+      window.addEventListener("keydown", this.handleKeyDown);
+    } else {
+      this.select(null);
+      this.scene.remove(this.grid);
+      this.scene.remove(this.transformControls.getHelper());
+      this.transformControls.enabled = false;
+      this.domElement.removeEventListener("pointerdown", this.handlePointerDown);
+      this.domElement.removeEventListener("pointerup", this.handlePointerUp);
+      window.removeEventListener("keydown", this.handleKeyDown);
+    }
+
+    console.log(`Building editor ${enabled ? "enabled" : "disabled"}`);
+  }
+
+  /**
+   * Returns whether edit mode is active
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Selects a building and attaches the gizmo to it
+   * @param id The building id, or null to clear the selection
+   */
+  select(id: string | null): void {
+    if (id === this.selectedId) return;
+
+    this.transformControls.detach();
+    if (this.selectionBox) {
+      this.scene.remove(this.selectionBox);
+      this.selectionBox.dispose();
+      this.selectionBox = null;
+    }
+
+    const object = id ? this.cityBuilder.getBuilding(id)?.object : null;
+    this.selectedId = object ? id : null;
+
+    if (object) {
+      this.transformControls.attach(object);
+      this.selectionBox = new THREE.BoxHelper(object, 0x00aaff);
+      this.scene.add(this.selectionBox);
+    }
+
+    this.options.onSelectionChanged?.(this.selectedId);
+  }
+
+  /**
+   * Gets the id of the selected building
+   */
+  getSelectedId(): string | null {
+    return this.selectedId;
+  }
+
+  /**
+   * Sets the gizmo mode
+   * @param mode Translate, rotate or scale
+   */
+  setMode(mode: BuildingEditorMode): void {
+    this.transformControls.setMode(mode);
+  }
+
+  /**
+   * Enables or disables grid snapping
+   * @param enabled Whether transforms snap to the configured steps
+   */
+  setSnapping(enabled: boolean): void {
+    this.snapping = enabled;
+    this.applySnapping();
+  }
+
+  /**
+   * Sets how buildings dropped onto other buildings or roads are handled
+   * @param policy Allow with a warning, refuse the move, or nudge the building clear
+   */
+  setOverlapPolicy(policy: OverlapPolicy): void {
+    this.options.overlapPolicy = policy;
+  }
+
+  getOverlapPolicy(): OverlapPolicy {
+    return this.options.overlapPolicy;
+  }
+
+  /**
+   * Removes the selected building
+   */
+  async deleteSelected(): Promise<void> {
+    const id = this.selectedId;
+    const config = this.cityBuilder.getConfig();
+    const building = id ? this.cityBuilder.getBuilding(id) : undefined;
+    if (!id || !config || !building) return;
+
+    this.select(null);
+
+    const command = {
+      type: "removeBuilding" as const,
+      placement: building.placement,
+      index: config.buildings.findIndex((b) => b.id === id),
+    };
+    if (this.options.history) {
+      await this.options.history.execute(command);
+    } else {
+      this.cityBuilder.removeBuilding(id);
+    }
+  }
+
+  /**
+   * Exports the edited city configuration as a JSON layout document
+   * @returns The JSON text or null if no city has been built
+   */
+  exportConfig(): string | null {
+    const config = this.cityBuilder.getConfig();
+    return config
+      ? stringifyCityConfig(config, { history: this.options.history?.toJSON() })
+      : null;
+  }
+
+  /**
+   * Downloads the edited city configuration as a JSON file
+   * @param filename Name of the downloaded file
+   */
+  downloadConfig(filename = "city-layout.json"): void {
+    const json = this.exportConfig();
+    if (!json) {
+      console.warn("Nothing to export, no city has been built");
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Keeps the selection outline in sync - call this in your animation loop
+   */
+  update(): void {
+    // Reattach if the selected building was reloaded (e.g. by an undo)
+    if (this.selectedId) {
+      const object = this.cityBuilder.getBuilding(this.selectedId)?.object;
+      if (!object) {
+        this.select(null);
+      } else if (object !== this.transformControls.object) {
+        const id = this.selectedId;
+        this.selectedId = null;
+        this.select(id);
+      }
+    }
+
+    this.selectionBox?.update();
+  }
+
+  /**
+   * Disposes the editor and its helpers
+   */
+  dispose(): void {
+    this.setEnabled(false);
+    this.transformControls.dispose();
+    this.grid.geometry.dispose();
+    (this.grid.material as THREE.Material).dispose();
+  }
+
+  /**
+   * Applies (or clears) the snapping steps on the gizmo
+   */
+  private applySnapping(): void {
+    this.transformControls.setTranslationSnap(
+      this.snapping ? this.options.translationSnap : null
+    );
+    this.transformControls.setRotationSnap(
+      this.snapping ? this.options.rotationSnap : null
+    );
+    this.transformControls.setScaleSnap(
+      this.snapping ? this.options.scaleSnap : null
+    );
+  }
+
+  /**
+   * Gets the stored transform of the selected building
+   */
+  private getSelectedTransform(): BuildingTransform | null {
+    const placement = this.selectedId
+      ? this.cityBuilder.getBuilding(this.selectedId)?.placement
+      : undefined;
+    if (!placement) return null;
+
+    return {
+      position: placement.position,
+      rotation: placement.rotation,
+      scale: placement.scale,
+    };
+  }
+
+  /**
+   * Writes the selected object's transform back into the city configuration
+   */
+  private async commitTransform(): Promise<void> {
+    const id = this.selectedId;
+    const object = this.transformControls.object;
+    const before = this.dragStartTransform;
+    this.dragStartTransform = null;
+    if (!id || !object) return;
+
+    if (!this.resolveOverlaps(id, object)) {
+      this.cityBuilder.resetBuildingTransform(id);
+      this.selectionBox?.update();
+      return;
+    }
+
+    // Anchored, snapped and resized buildings store another transform than
+    // their object's
+    const transform = this.cityBuilder.getPlacementTransform(id);
+    if (!transform) return;
+    const after: BuildingTransform = {
+      position: transform.position.map(roundValue) as BuildingTransform["position"],
+      rotation: transform.rotation.map(roundValue) as BuildingTransform["rotation"],
+      scale: transform.scale.map(roundValue) as BuildingTransform["scale"],
+    };
+
+    if (this.options.history && before) {
+      await this.options.history.execute({
+        type: "transformBuilding",
+        id,
+        before,
+        after,
+      });
+    } else {
+      await this.cityBuilder.updateBuilding(id, after);
+    }
+
+    const updated = this.cityBuilder.getBuilding(id);
+    if (updated) {
+      this.options.onBuildingTransformed?.(updated.placement);
+    }
+  }
+
+  /**
+   * Applies the overlap policy to a building that was just dragged
+   * @param id The building id
+   * @param object The building's object, moved by the gizmo
+   * @returns False if the move is refused
+   */
+  private resolveOverlaps(id: string, object: THREE.Object3D): boolean {
+    const { overlapPolicy, overlapMargin } = this.options;
+    let overlaps = this.cityBuilder.findOverlaps(id, overlapMargin);
+    if (overlaps.length === 0) return true;
+
+    if (overlapPolicy === "nudge") {
+      // Push out of the deepest overlap until clear; a push can cause a new one
+      for (let step = 0; step < MAX_NUDGE_STEPS && overlaps.length > 0; step++) {
+        const [{ depth, direction }] = overlaps;
+        object.position.x += direction[0] * (depth + NUDGE_CLEARANCE);
+        object.position.z += direction[1] * (depth + NUDGE_CLEARANCE);
+        overlaps = this.cityBuilder.findOverlaps(id, overlapMargin);
+      }
+      this.cityBuilder.syncBuildingTransform(id);
+      this.selectionBox?.update();
+      if (overlaps.length === 0) {
+        console.log(`Nudged building "${id}" clear of its neighbours`);
+        return true;
+      }
+    }
+
+    const others = overlaps
+      .map((overlap) => `${overlap.kind} "${overlap.otherId}"`)
+      .join(", ");
+    if (overlapPolicy === "allow") {
+      console.warn(`Building "${id}" overlaps ${others}`);
+      return true;
+    }
+    console.warn(`Building "${id}" would overlap ${others}, move refused`);
+    return false;
+  }
+
+  /**
+   * Finds the building under the pointer
+   * @param event The pointer event
+   * @returns The building id or null if no building was hit
+   */
+  private pickBuilding(event: PointerEvent): string | null {
+    const rect = this.domElement.getBoundingClientRect();
+    this.pointer.set(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+
+    const hits = this.raycaster.intersectObjects(
+      this.cityBuilder.getPickableObjects(),
+      true
+    );
+
+    for (const hit of hits) {
+      const id = this.cityBuilder.getBuildingIdFromIntersection(hit);
+      if (id) return id;
+    }
+
+    return null;
+  }
+
+  private handlePointerDown = (event: PointerEvent): void => {
+    this.pointerDownPosition = { x: event.clientX, y: event.clientY };
+  };
+
+  private handlePointerUp = (event: PointerEvent): void => {
+    const start = this.pointerDownPosition;
+    this.pointerDownPosition = null;
+
+    // Ignore drags (camera orbits) and gizmo interaction
+    if (!start || this.transformControls.dragging) return;
+    const distance = Math.hypot(event.clientX - start.x, event.clientY - start.y);
+    if (distance > CLICK_TOLERANCE || this.transformControls.axis) return;
+
+    this.select(this.pickBuilding(event));
+  };
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    // Typing into the page's text fields must not move or delete buildings
+    if (isEditableTarget(event)) return;
+
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "s") {
+      event.preventDefault();
+      this.downloadConfig();
+      return;
+    }
+
+    switch (event.key.toLowerCase()) {
+      case "w":
+        this.setMode("translate");
+        break;
+      case "e":
+        this.setMode("rotate");
+        break;
+      case "r":
+        this.setMode("scale");
+        break;
+      case "q":
+        this.transformControls.setSpace(
+          this.transformControls.space === "local" ? "world" : "local"
+        );
+        break;
+      case "g":
+        this.setSnapping(!this.snapping);
+        console.log(`Grid snapping ${this.snapping ? "enabled" : "disabled"}`);
+        break;
+      case "o": {
+        const index = OVERLAP_POLICIES.indexOf(this.options.overlapPolicy);
+        this.setOverlapPolicy(OVERLAP_POLICIES[(index + 1) % OVERLAP_POLICIES.length]);
+        console.log(`Overlap policy: ${this.options.overlapPolicy}`);
+        break;
+      }
+      case "delete":
+        this.deleteSelected().catch((error) =>
+          console.error("Failed to remove the building:", error)
+        );
+        break;
+      case "escape":
+        this.select(null);
+        break;
+    }
+  };
+}
+
+/**
+ * Creates a building editor
+ * @param camera The camera used for picking
+ * @param domElement The renderer's canvas
+ * @param scene The Three.js scene
+ * @param orbitControls The orbit controls to suspend while dragging gizmos
+ * @param cityBuilder The city builder owning the buildings
+ * @param options Editor options
+ * @returns A BuildingEditor instance
+ */
+export const createBuildingEditor = (
+  camera: THREE.Camera,
+  domElement: HTMLElement,
+  scene: THREE.Scene,
+  orbitControls: OrbitControls,
+  cityBuilder: CityBuilder,
+  options?: BuildingEditorOptions
+): BuildingEditor => {
+  return new BuildingEditor(
+    camera,
+    domElement,
+    scene,
+    orbitControls,
+    cityBuilder,
+    options
+  );
+};
@@ -0,0 +1,352 @@
+import type { CityBuilder } from "../builders/cityBuilder";
+import type { CityEnvironment } from "../environment/cityEnvironment";
+import type {
+  BuildingPlacement,
+  BuildingTexture,
+  EnvironmentConfig,
+} from "../types";
+
+/**
+ * Position, rotation and scale of a building
+ */
+export type BuildingTransform = Pick<
+  BuildingPlacement,
+  "position" | "rotation" | "scale"
+>;
+
+/**
+ * An undoable edit of the city configuration.
+ *
+ * Commands are plain data that refer to buildings by id, never to scene
+ * objects, so they can be saved with a layout and replayed after it has
+ * been loaded and rebuilt.
+ */
+export type CityCommand =
+  | {
+      type: "addBuilding";
+      placement: BuildingPlacement;
+      /** Position in the building list, appended when omitted */
+      index?: number;
+    }
+  | {
+      type: "removeBuilding";
+      placement: BuildingPlacement;
+      /** Position the building had in the building list, restored on undo */
+      index?: number;
+    }
+  | {
+      type: "transformBuilding";
+      id: string;
+      before: BuildingTransform;
+      after: BuildingTransform;
+    }
+  | {
+      type: "retextureBuilding";
+      id: string;
+      before?: BuildingTexture[];
+      after?: BuildingTexture[];
+    }
+  | {
+      type: "updateEnvironment";
+      before: EnvironmentConfig;
+      after: EnvironmentConfig;
+    };
+
+/**
+ * Serialized undo and redo stacks
+ */
+export interface SerializedCommandHistory {
+  undo: CityCommand[];
+  redo: CityCommand[];
+}
+
+/**
+ * The objects commands operate on
+ */
+export interface CityEditTarget {
+  cityBuilder: CityBuilder;
+  environment: CityEnvironment;
+}
+
+/**
+ * Command history options
+ */
+export interface CommandHistoryOptions {
+  /** Maximum number of undo steps kept (default: 100) */
+  limit?: number;
+  /** Called whenever the undo or redo stack changes */
+  onChange?: (history: CommandHistory) => void;
+}
+
+const COMMAND_TYPES: ReadonlyArray<CityCommand["type"]> = [
+  "addBuilding",
+  "removeBuilding",
+  "transformBuilding",
+  "retextureBuilding",
+  "updateEnvironment",
+];
+
+/**
+ * Returns the command that undoes the given command
+ * @param command The command to invert
+ * @returns The inverse command
+ */
+export const invertCommand = (command: CityCommand): CityCommand => {
+  switch (command.type) {
+    case "addBuilding":
+      return { ...command, type: "removeBuilding" };
+    case "removeBuilding":
+      return { ...command, type: "addBuilding" };
+    case "transformBuilding":
+      return { ...command, before: command.after, after: command.before };
+    case "retextureBuilding":
+      return { ...command, before: command.after, after: command.before };
+    case "updateEnvironment":
+      return { ...command, before: command.after, after: command.before };
+  }
+};
+
+/**
+ * Applies a command to the city configuration and the live scene
+ * @param command The command to apply
+ * @param target The city builder and environment to modify
+ * @returns Promise resolving to true if the command could be applied
+ */
+export const applyCommand = async (
+  command: CityCommand,
+  target: CityEditTarget
+): Promise<boolean> => {
+  const { cityBuilder, environment } = target;
+
+  switch (command.type) {
+    case "addBuilding":
+      return (
+        (await cityBuilder.addBuilding(command.placement, command.index)) !== null
+      );
+
+    case "removeBuilding":
+      return cityBuilder.removeBuilding(command.placement.id);
+
+    case "transformBuilding":
+      return (await cityBuilder.updateBuilding(command.id, command.after)) !== null;
+
+    case "retextureBuilding":
+      return (
+        (await cityBuilder.updateBuilding(command.id, {
+          textures: command.after,
+        })) !== null
+      );
+
+    case "updateEnvironment": {
+      // Updates the live environment, rebuilding only what changed
+      const config = cityBuilder.getConfig();
+      if (config) {
+        config.environment = command.after;
+      }
+      environment.setConfig(command.after);
+      return true;
+    }
+  }
+};
+
+/**
+ * Undo/redo stack for city edits
+ */
+export class CommandHistory {
+  private target: CityEditTarget;
+  private options: Required<Omit<CommandHistoryOptions, "onChange">> &
+    Pick<CommandHistoryOptions, "onChange">;
+  private undoStack: CityCommand[] = [];
+  private redoStack: CityCommand[] = [];
+  /** Settles when the last queued edit has finished */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Creates a command history
+   * @param target The city builder and environment commands operate on
+   * @param options History options
+   */
+  constructor(target: CityEditTarget, options: CommandHistoryOptions = {}) {
+    this.target = target;
+    this.options = {
+      limit: options.limit ?? 100,
+      onChange: options.onChange,
+    };
+  }
+
+  /**
+   * Applies a command and pushes it onto the undo stack
+   * @param command The command to execute
+   * @returns Promise resolving to true if the command was applied
+   */
+  async execute(command: CityCommand): Promise<boolean> {
+    // Waits for a running undo/redo so two edits never touch a building at once
+    return this.exclusive(async () => {
+      const applied = await applyCommand(command, this.target);
+      if (applied) {
+        this.record(command);
+      } else {
+        console.warn(`Command ${command.type} could not be applied`);
+      }
+      return applied;
+    });
+  }
+
+  /**
+   * Pushes an already applied command onto the undo stack
+   * @param command The command to record
+   */
+  record(command: CityCommand): void {
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.options.limit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.notifyChange();
+  }
+
+  /**
+   * Undoes the most recent command
+   * @returns Promise resolving to true if a command was undone
+   */
+  async undo(): Promise<boolean> {
+    return this.step(true);
+  }
+
+  /**
+   * Redoes the most recently undone command
+   * @returns Promise resolving to true if a command was redone
+   */
+  async redo(): Promise<boolean> {
+    return this.step(false);
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Clears both stacks
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notifyChange();
+  }
+
+  /**
+   * Serializes the history so it can be stored with a layout
+   * @returns The undo and redo stacks as plain data
+   */
+  toJSON(): SerializedCommandHistory {
+    return {
+      undo: structuredClone(this.undoStack),
+      redo: structuredClone(this.redoStack),
+    };
+  }
+
+  /**
+   * Restores a previously serialized history, dropping unknown commands
+   * @param history The serialized stacks
+   */
+  load(history: SerializedCommandHistory): void {
+    const isCommand = (command: unknown): command is CityCommand =>
+      typeof command === "object" &&
+      command !== null &&
+      COMMAND_TYPES.includes((command as CityCommand).type);
+
+    this.undoStack = (history.undo ?? []).filter(isCommand);
+    this.redoStack = (history.redo ?? []).filter(isCommand);
+
+    const dropped =
+      (history.undo?.length ?? 0) +
+      (history.redo?.length ?? 0) -
+      this.undoStack.length -
+      this.redoStack.length;
+    if (dropped > 0) {
+      console.warn(`Dropped ${dropped} unknown commands from the edit history`);
+    }
+
+    this.notifyChange();
+  }
+
+  /**
+   * Handles Ctrl+Z (undo) and Ctrl+Shift+Z / Ctrl+Y (redo)
+   * @param event The keyboard event
+   * @returns True if the event was handled
+   */
+  handleKeyDown(event: KeyboardEvent): boolean {
+    if (!(event.ctrlKey || event.metaKey)) return false;
+
+    const key = event.key.toLowerCase();
+    if (key === "z" && !event.shiftKey) {
+      event.preventDefault();
+      this.undo().catch((error) => console.error("Undo failed:", error));
+      return true;
+    }
+    if ((key === "z" && event.shiftKey) || key === "y") {
+      event.preventDefault();
+      this.redo().catch((error) => console.error("Redo failed:", error));
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Moves one command between the stacks, applying it (or its inverse)
+   */
+  private async step(invert: boolean): Promise<boolean> {
+    // Edits are async (models may reload), wait for the pending ones. The
+    // stacks are read once it runs, as clear() or load() may replace them
+    return this.exclusive(async () => {
+      const from = invert ? this.undoStack : this.redoStack;
+      const to = invert ? this.redoStack : this.undoStack;
+      const command = from.pop();
+      if (!command) return false;
+
+      const applied = await applyCommand(
+        invert ? invertCommand(command) : command,
+        this.target
+      );
+      if (applied) {
+        to.push(command);
+      } else {
+        // Keep the command where it was so the stacks match the scene
+        console.warn(`Failed to ${invert ? "undo" : "redo"} ${command.type}`);
+        from.push(command);
+      }
+      this.notifyChange();
+      return applied;
+    });
+  }
+
+  /**
+   * Runs an edit once all previously queued edits have finished
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private notifyChange(): void {
+    this.options.onChange?.(this);
+  }
+}
+
+/**
+ * Creates a command history
+ * @param target The city builder and environment commands operate on
+ * @param options History options
+ * @returns A CommandHistory instance
+ */
+export const createCommandHistory = (
+  target: CityEditTarget,
+  options?: CommandHistoryOptions
+): CommandHistory => {
+  return new CommandHistory(target, options);
+};
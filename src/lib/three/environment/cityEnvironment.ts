@@ -1,5 +1,67 @@
 import * as THREE from "three";
-import type { LightPosition, EnvironmentConfig } from "../types";
+import type {
+  EnvironmentConfig,
+  EnvironmentConfigPatch,
+  GroundConfig,
+  LightingConfig,
+  LightPosition,
+  WeatherConfig,
+  WeatherType,
+} from "../types";
+import {
+  RoadNetwork,
+  createDefaultRoadNetworkConfig,
+} from "./roadNetwork";
+import { createRoadMeshes, type RoadMeshes } from "./roadMeshBuilder";
+import {
+  computeStreetLightPositions,
+  type GroundObstacle,
+} from "./streetLightPlacement";
+import { StreetLightSystem } from "./streetLightSystem";
+import { DayNightCycle } from "./dayNightCycle";
+import { WeatherSystem, type WetSurface } from "./weatherSystem";
+import type { OrientedFootprint } from "../utils/footprint";
+import { EventEmitter } from "../utils/eventEmitter";
+
+/**
+ * Lights created by CityEnvironment.setupLighting
+ */
+interface EnvironmentLights {
+  ambient?: THREE.AmbientLight;
+  directional?: THREE.DirectionalLight;
+  fill?: THREE.DirectionalLight;
+}
+
+/**
+ * Events emitted by CityEnvironment
+ */
+interface CityEnvironmentEvents {
+  groundChange: undefined;
+}
+
+/**
+ * Merges a partial configuration into a full one. Nested objects are merged,
+ * arrays and other values are replaced.
+ * @param base The full configuration
+ * @param patch The values to change
+ * @returns A new configuration object
+ */
+const mergeConfig = <T>(base: T, patch: unknown): T => {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+  if (!isObject(base) || !isObject(patch)) {
+    return (patch === undefined ? base : patch) as T;
+  }
+
+  const result: Record<string, unknown> = { ...base };
+  Object.entries(patch).forEach(([key, value]) => {
+    if (value !== undefined) {
+      result[key] = mergeConfig(result[key], value);
+    }
+  });
+  return result as T;
+};
 
 /**
  * City Environment class for creating city infrastructure and lighting
@@ -7,6 +69,20 @@ import type { LightPosition, EnvironmentConfig } from "../types";
 export class CityEnvironment {
   private scene: THREE.Scene;
   private config: EnvironmentConfig;
+  private roadNetwork: RoadNetwork | null = null;
+  private buildingFootprints: GroundObstacle[] = [];
+  private streetLightSystem: StreetLightSystem | null = null;
+  private lights: EnvironmentLights = {};
+  private dayNightCycle: DayNightCycle | null = null;
+  private cityLightLevel = 1;
+  private weatherSystem: WeatherSystem | null = null;
+  private wetSurfaces: WetSurface[] = [];
+  private baseFogDensity = 0;
+  private fog: THREE.FogExp2 | null = null;
+  private ground: THREE.Mesh<THREE.PlaneGeometry, THREE.MeshStandardMaterial> | null = null;
+  private roadMeshes: RoadMeshes | null = null;
+  private initialized = false;
+  private events = new EventEmitter<CityEnvironmentEvents>();
 
   constructor(scene: THREE.Scene, config?: EnvironmentConfig) {
     this.scene = scene;
@@ -59,23 +135,39 @@ export class CityEnvironment {
   }
 
   /**
-   * Set or update the environment configuration
+   * Set or update the environment configuration. Before initialize() this only
+   * stores the configuration; afterwards the live scene is updated to match
+   * (use applyConfig to change only some settings).
    * @param config The environment configuration
    */
   setConfig(config: EnvironmentConfig): void {
-    this.config = config;
+    if (this.initialized) {
+      this.reconfigure(config);
+    } else {
+      this.config = config;
+    }
+  }
+
+  /**
+   * Gets the current environment configuration
+   */
+  getConfig(): EnvironmentConfig {
+    return this.config;
   }
 
   /**
-   * Creates ground plane and roads for the city
+   * Creates ground plane, roads, intersections, sidewalks and curbs for the city
    * @returns Object containing references to the created elements or null if disabled
    */
   createGround() {
     const config = this.config.ground;
 
+    this.removeGround();
+
     // Skip if ground is disabled
     if (!config.enabled) {
       console.log("Ground creation disabled in config");
+      this.events.emit("groundChange", undefined);
       return null;
     }
 
@@ -90,129 +182,379 @@ export class CityEnvironment {
     ground.position.y = 0;
     ground.receiveShadow = true;
     this.scene.add(ground);
+    this.ground = ground;
+    this.wetSurfaces = [{ material: groundMaterial }];
 
     // Early return if roads are disabled
     if (!config.includeRoads) {
-      return { ground };
+      this.roadNetwork = null;
+      this.weatherSystem?.setWetSurfaces(this.wetSurfaces);
+      this.events.emit("groundChange", undefined);
+      return { ground, roads: null };
     }
 
-    // Create road material
-    const roadMaterial = new THREE.MeshStandardMaterial({
-      color: config.roadColor,
-      roughness: 0.6,
+    // Build the road network (a single crossing unless configured otherwise)
+    this.roadNetwork = RoadNetwork.fromConfig(
+      config.roads ?? createDefaultRoadNetworkConfig(config.size),
+      config.size
+    );
+
+    const roads = createRoadMeshes(this.roadNetwork, {
+      roadColor: config.roadColor,
+      sidewalkColor: config.roads?.sidewalkColor,
+      curbColor: config.roads?.curbColor,
+      markingColor: config.roads?.markingColor,
     });
+    this.scene.add(roads.group);
+    this.roadMeshes = roads;
+
+    // Road surfaces get puddles when it rains (their UVs are in world units)
+    [roads.surface, roads.markings, roads.sidewalks].forEach((mesh) => {
+      if (mesh?.material instanceof THREE.MeshStandardMaterial) {
+        this.wetSurfaces.push({
+          material: mesh.material,
+          puddles: mesh === roads.surface,
+        });
+      }
+    });
+    this.weatherSystem?.setWetSurfaces(this.wetSurfaces);
 
-    // Add roads between buildings (horizontal)
-    // Standard two-lane road is 10 meters wide (using human scale)
-    const roadWidth = 10;
-    const mainRoadGeometry = new THREE.PlaneGeometry(
-      config.size * 0.9,
-      roadWidth
-    );
-    const mainRoad = new THREE.Mesh(mainRoadGeometry, roadMaterial);
-    mainRoad.rotation.x = -Math.PI / 2;
-    mainRoad.position.y = 0.01; // Slightly above ground to prevent z-fighting
-    this.scene.add(mainRoad);
-
-    // Add roads between buildings (vertical)
-    const crossRoadGeometry = new THREE.PlaneGeometry(
-      roadWidth,
-      config.size * 0.9
-    );
-    const crossRoad = new THREE.Mesh(crossRoadGeometry, roadMaterial);
-    crossRoad.rotation.x = -Math.PI / 2;
-    crossRoad.position.y = 0.01;
-    this.scene.add(crossRoad);
+    this.events.emit("groundChange", undefined);
+    return { ground, roads };
+  }
 
-    // Add intersection in the middle
-    const intersectionGeometry = new THREE.PlaneGeometry(roadWidth, roadWidth);
-    const intersection = new THREE.Mesh(intersectionGeometry, roadMaterial);
-    intersection.rotation.x = -Math.PI / 2;
-    intersection.position.y = 0.02; // Slightly above roads
-    this.scene.add(intersection);
+  /**
+   * Removes the ground plane and roads and frees their geometry and materials
+   */
+  private removeGround(): void {
+    this.weatherSystem?.setWetSurfaces([]);
+    this.wetSurfaces = [];
+
+    [this.ground, this.roadMeshes?.group].forEach((object) => {
+      if (!object) return;
+      this.scene.remove(object);
+      object.traverse((node) => {
+        if (node instanceof THREE.Mesh) {
+          node.geometry.dispose();
+          (node.material as THREE.Material).dispose();
+        }
+      });
+    });
 
-    return { ground, mainRoad, crossRoad, intersection };
+    this.ground = null;
+    this.roadMeshes = null;
+    this.roadNetwork = null;
   }
 
   /**
-   * Creates a single street light with pole and lamp
-   * @param x X position
-   * @param z Z position
-   * @param rotationY Y rotation in radians
-   * @returns The created street light group
+   * Gets the road network generated by createGround
+   * @returns The road network or null if roads are disabled or not created yet
    */
-  createStreetLight(x: number, z: number, rotationY = 0): THREE.Group {
-    const config = this.config.streetLights;
+  getRoadNetwork(): RoadNetwork | null {
+    return this.roadNetwork;
+  }
 
-    // Create pole - typical street light pole is 5-7 meters high and ~0.2m in diameter
-    const poleHeight = 6;
-    const poleGeometry = new THREE.CylinderGeometry(0.15, 0.2, poleHeight, 8);
-    const poleMaterial = new THREE.MeshStandardMaterial({ color: 0x888888 });
-    const pole = new THREE.Mesh(poleGeometry, poleMaterial);
-    pole.position.set(x, poleHeight / 2, z); // Position bottom at ground level
-    pole.castShadow = true;
-
-    // Light bulb - larger for better visibility
-    const lampGeometry = new THREE.SphereGeometry(0.3, 16, 16);
-    const lampMaterial = new THREE.MeshStandardMaterial({
-      color: config.color,
-      emissive: config.color,
-      emissiveIntensity: 1,
-    });
-    const lamp = new THREE.Mesh(lampGeometry, lampMaterial);
-    lamp.position.set(x, poleHeight, z); // Position at top of pole
-
-    // Light source
-    const light = new THREE.PointLight(
-      config.color,
-      config.intensity,
-      config.distance
-    );
-    light.position.set(x, poleHeight, z); // Position at top of pole
-    light.castShadow = true;
-    light.shadow.mapSize.width = config.shadowResolution;
-    light.shadow.mapSize.height = config.shadowResolution;
-    light.shadow.camera.near = 0.1;
-    light.shadow.camera.far = config.distance + 5;
+  /**
+   * Gets the ground rectangles covered by roads and sidewalks, for checking
+   * building placements against
+   * @returns One rectangle per road, or none if roads are disabled or not created yet
+   */
+  getRoadFootprints(): OrientedFootprint[] {
+    return this.roadNetwork?.getRoadFootprints() ?? [];
+  }
 
-    // Group elements
-    const streetLight = new THREE.Group();
-    streetLight.add(pole);
-    streetLight.add(lamp);
-    streetLight.add(light);
-    streetLight.rotation.y = rotationY;
+  /**
+   * Subscribes to the ground and roads being created, rebuilt or removed,
+   * e.g. to refresh the road footprints buildings are checked against
+   * @param listener Called after each change
+   * @returns Function that removes the listener
+   */
+  onGroundChange(listener: () => void): () => void {
+    return this.events.on("groundChange", listener);
+  }
 
-    return streetLight;
+  /**
+   * Sets the building footprints that automatically placed street lights avoid
+   * @param footprints Ground-plane rectangles covered by buildings
+   */
+  setBuildingFootprints(footprints: GroundObstacle[]): void {
+    this.buildingFootprints = footprints;
   }
 
   /**
-   * Creates street lights for the city based on provided positions
+   * Creates street lights for the city, either at the configured positions or
+   * automatically placed along the road network. Poles are instanced and only
+   * the ones nearest the camera get real lights (see update).
    * @returns The group containing all street lights or null if disabled
    */
   createStreetLights(): THREE.Group | null {
     const config = this.config.streetLights;
 
+    this.removeStreetLights();
+
     // Skip if street lights are disabled
     if (!config.enabled) {
       console.log("Street lights disabled in config");
       return null;
     }
 
-    const streetLights = new THREE.Group();
+    this.streetLightSystem = new StreetLightSystem(
+      this.getStreetLightPositions(),
+      config
+    );
+    this.streetLightSystem.setLevel(this.cityLightLevel);
 
-    // Use configuration positions or fallback to defaults
-    const positions =
-      config.positions && config.positions.length > 0
-        ? config.positions
-        : this.getDefaultLightPositions();
-
-    positions.forEach((pos) => {
-      const light = this.createStreetLight(pos.x, pos.z, pos.rotation);
-      streetLights.add(light);
-    });
+    this.scene.add(this.streetLightSystem.group);
+    return this.streetLightSystem.group;
+  }
+
+  /**
+   * Removes the street lights and frees their resources
+   */
+  private removeStreetLights(): void {
+    this.streetLightSystem?.dispose();
+    this.streetLightSystem = null;
+  }
+
+  /**
+   * Gets the street light system
+   * @returns The street light system or null if street lights aren't created
+   */
+  getStreetLightSystem(): StreetLightSystem | null {
+    return this.streetLightSystem;
+  }
+
+  /**
+   * Updates camera and time dependent parts of the environment - call this in your animation loop
+   * @param camera The active camera
+   * @param deltaSeconds Real time since the last frame, advances the day/night cycle
+   */
+  update(camera: THREE.Camera, deltaSeconds = 0): void {
+    this.streetLightSystem?.update(camera);
+
+    if (this.dayNightCycle?.advance(deltaSeconds)) {
+      this.applyTimeOfDay();
+    }
+
+    if (this.weatherSystem) {
+      this.weatherSystem.update(camera, deltaSeconds);
+      this.applyFogDensity();
+    }
+  }
+
+  /**
+   * Creates the weather system if enabled in the config
+   * @returns The weather system or null if weather is disabled
+   */
+  setupWeather(): WeatherSystem | null {
+    const config = this.config.weather;
+    this.removeWeather();
+    if (!config?.enabled) return null;
+
+    this.weatherSystem = new WeatherSystem(this.scene, config);
+    this.weatherSystem.setWetSurfaces(this.wetSurfaces);
+    this.applyFogDensity();
+    return this.weatherSystem;
+  }
+
+  /**
+   * Removes the rain and restores dry surfaces and the base fog density
+   */
+  private removeWeather(): void {
+    if (!this.weatherSystem) return;
+
+    this.weatherSystem.dispose();
+    this.weatherSystem = null;
+    this.applyFogDensity();
+  }
+
+  /**
+   * Changes the weather, blending rain, wet roads and fog over a few seconds
+   * @param type The new weather type
+   * @param transitionSeconds Optional blend duration (0 switches instantly)
+   */
+  setWeather(type: WeatherType, transitionSeconds?: number): void {
+    if (!this.weatherSystem) {
+      // Start from clear weather so the change is animated as well
+      this.weatherSystem = new WeatherSystem(this.scene, {
+        ...this.config.weather,
+        enabled: true,
+        type: "clear",
+      });
+      this.weatherSystem.setWetSurfaces(this.wetSurfaces);
+    }
+    this.weatherSystem.setWeather(type, transitionSeconds);
+  }
+
+  /**
+   * Gets the current weather type
+   * @returns The weather type, or null if the weather system is not active
+   */
+  getWeather(): WeatherType | null {
+    return this.weatherSystem?.getWeather() ?? null;
+  }
+
+  /**
+   * Applies the base fog density (from the config or the time of day)
+   * scaled by the weather
+   */
+  private applyFogDensity(): void {
+    if (!this.fog) return;
+    this.fog.density =
+      this.baseFogDensity * (this.weatherSystem?.getFogMultiplier() ?? 1);
+  }
+
+  /**
+   * Gets the day/night cycle, creating it from the lighting config (or the
+   * default presets) on first use
+   */
+  private getDayNightCycle(): DayNightCycle {
+    if (!this.dayNightCycle) {
+      this.dayNightCycle = new DayNightCycle(this.config.lighting.timeOfDay);
+    }
+    return this.dayNightCycle;
+  }
+
+  /**
+   * Sets the time of day and updates sun, sky, fog and city lights
+   * @param hours Hours since midnight (e.g. 18.5 for 6:30 pm)
+   */
+  setTimeOfDay(hours: number): void {
+    this.getDayNightCycle().setHours(hours);
+    this.applyTimeOfDay();
+  }
+
+  /**
+   * Gets the current time of day
+   * @returns Hours since midnight, or null if the day/night cycle is not active
+   */
+  getTimeOfDay(): number | null {
+    return this.dayNightCycle?.getHours() ?? null;
+  }
+
+  /**
+   * Sets how fast the time of day advances in update()
+   * @param timeScale Simulated hours per real second (0 stops the clock)
+   */
+  setTimeScale(timeScale: number): void {
+    this.getDayNightCycle().setTimeScale(timeScale);
+    this.applyTimeOfDay();
+  }
+
+  /**
+   * Applies the day/night cycle's current state to lights, fog and background
+   */
+  private applyTimeOfDay(): void {
+    if (!this.dayNightCycle) return;
+
+    const state = this.dayNightCycle.sample();
+    const { ambient, directional, fill } = this.lights;
+
+    if (directional) {
+      // Keep the configured distance, only the direction follows the sun
+      const distance = new THREE.Vector3(
+        ...this.config.lighting.directional.position
+      ).length();
+      directional.position.copy(state.sunDirection).multiplyScalar(distance);
+      directional.color.copy(state.sunColor);
+      directional.intensity = state.sunIntensity;
+    }
+    if (ambient) {
+      ambient.color.copy(state.ambientColor);
+      ambient.intensity = state.ambientIntensity;
+    }
+    if (fill) {
+      fill.color.copy(state.fillColor);
+      fill.intensity = state.fillIntensity;
+    }
+
+    this.fog?.color.copy(state.fogColor);
+    this.baseFogDensity = state.fogDensity;
+    this.applyFogDensity();
+
+    if (this.scene.background instanceof THREE.Color) {
+      this.scene.background.copy(state.skyColor);
+    } else if (!this.scene.background) {
+      this.scene.background = state.skyColor;
+    }
+
+    this.setCityLightLevel(state.cityLights);
+  }
+
+  /**
+   * Switches street lights and building emissive maps on or off
+   * @param level 0 (off) to 1 (fully on)
+   */
+  private setCityLightLevel(level: number): void {
+    if (Math.abs(level - this.cityLightLevel) < 0.005) return;
+    this.cityLightLevel = level;
 
-    this.scene.add(streetLights);
-    return streetLights;
+    this.streetLightSystem?.setLevel(level);
+    this.refreshBuildingLights();
+  }
+
+  /**
+   * Applies the current city light level to building emissive maps, e.g.
+   * after buildings were added or reloaded
+   */
+  refreshBuildingLights(): void {
+    const level = this.cityLightLevel;
+
+    // Scale emissive maps (and the neon of procedural buildings) relative to
+    // the intensity the building was loaded with
+    this.scene.children
+      .filter(
+        (object) =>
+          object.userData.type === "building" ||
+          object.userData.type === "buildingBatch"
+      )
+      .forEach((building) =>
+        building.traverse((node) => {
+          if (!(node instanceof THREE.Mesh)) return;
+
+          const materials = Array.isArray(node.material)
+            ? node.material
+            : [node.material];
+          materials.forEach((material) => {
+            const glows =
+              ("emissiveMap" in material && !!material.emissiveMap) ||
+              material.userData.cityLight === true;
+            if (!glows) return;
+            const standard = material as THREE.MeshStandardMaterial;
+            standard.userData.baseEmissiveIntensity ??= standard.emissiveIntensity;
+            standard.emissiveIntensity =
+              standard.userData.baseEmissiveIntensity * level;
+          });
+        })
+      );
+  }
+
+  /**
+   * Resolves street light positions for the configured placement mode
+   */
+  private getStreetLightPositions(): LightPosition[] {
+    const config = this.config.streetLights;
+
+    if (config.placement === "auto") {
+      if (this.roadNetwork && config.autoPlacement) {
+        const positions = computeStreetLightPositions(
+          this.roadNetwork,
+          config.autoPlacement,
+          this.buildingFootprints
+        );
+        console.log(`Placed ${positions.length} street lights along the road network`);
+        return positions;
+      }
+
+      console.warn(
+        "Automatic street light placement needs roads (create the ground first) and autoPlacement settings, using manual positions"
+      );
+    }
+
+    // Use configuration positions or fallback to defaults
+    return config.positions && config.positions.length > 0
+      ? config.positions
+      : this.getDefaultLightPositions();
   }
 
   /**
@@ -252,72 +594,295 @@ export class CityEnvironment {
    */
   setupLighting() {
     const config = this.config.lighting;
-    const result: Record<string, THREE.Light> = {};
+    this.removeLights();
 
-    // Ambient light
     if (config.ambient.enabled) {
-      const ambientLight = new THREE.AmbientLight(
-        config.ambient.color,
-        config.ambient.intensity
-      );
+      this.lights.ambient = this.createAmbientLight(config);
+    }
+    if (config.directional.enabled) {
+      this.lights.directional = this.createDirectionalLight(config);
+    }
+    if (config.fill.enabled) {
+      this.lights.fill = this.createFillLight(config);
+    }
+
+    this.applyFogConfig(config);
+    this.applyTimeOfDayConfig(config);
+
+    const result: Record<string, THREE.Light> = {};
+    if (this.lights.ambient) result.ambientLight = this.lights.ambient;
+    if (this.lights.directional) result.directionalLight = this.lights.directional;
+    if (this.lights.fill) result.fillLight = this.lights.fill;
+    return result;
+  }
 
-      this.scene.add(ambientLight);
-      result.ambientLight = ambientLight;
+  /**
+   * Creates the ambient light
+   */
+  private createAmbientLight(config: LightingConfig): THREE.AmbientLight {
+    const ambientLight = new THREE.AmbientLight(
+      config.ambient.color,
+      config.ambient.intensity
+    );
+
+    this.scene.add(ambientLight);
+    return ambientLight;
+  }
+
+  /**
+   * Creates the main directional light
+   */
+  private createDirectionalLight(config: LightingConfig): THREE.DirectionalLight {
+    const directionalLight = new THREE.DirectionalLight(
+      config.directional.color,
+      config.directional.intensity
+    );
+    directionalLight.position.set(
+      config.directional.position[0],
+      config.directional.position[1],
+      config.directional.position[2]
+    );
+
+    // Shadow camera covering the city center
+    directionalLight.shadow.camera.near = 0.5;
+    directionalLight.shadow.camera.far = 100;
+    directionalLight.shadow.camera.left = -50;
+    directionalLight.shadow.camera.right = 50;
+    directionalLight.shadow.camera.top = 50;
+    directionalLight.shadow.camera.bottom = -50;
+    directionalLight.shadow.bias = -0.001;
+    this.configureDirectionalShadows(directionalLight, config);
+
+    this.scene.add(directionalLight);
+    return directionalLight;
+  }
+
+  /**
+   * Applies the shadow settings of the directional light
+   */
+  private configureDirectionalShadows(
+    light: THREE.DirectionalLight,
+    config: LightingConfig
+  ): void {
+    const resolution = config.directional.shadowResolution;
+    light.castShadow = config.directional.shadowEnabled;
+
+    // A new resolution needs a new shadow map
+    if (light.shadow.mapSize.width !== resolution && light.shadow.map) {
+      light.shadow.map.dispose();
+      light.shadow.map = null;
     }
+    light.shadow.mapSize.width = resolution;
+    light.shadow.mapSize.height = resolution;
+  }
 
-    // Main directional light
-    if (config.directional.enabled) {
-      const directionalLight = new THREE.DirectionalLight(
-        config.directional.color,
-        config.directional.intensity
-      );
-      directionalLight.position.set(
-        config.directional.position[0],
-        config.directional.position[1],
-        config.directional.position[2]
-      );
+  /**
+   * Creates the fill light
+   */
+  private createFillLight(config: LightingConfig): THREE.DirectionalLight {
+    const fillLight = new THREE.DirectionalLight(
+      config.fill.color,
+      config.fill.intensity
+    );
+    fillLight.position.set(
+      config.fill.position[0],
+      config.fill.position[1],
+      config.fill.position[2]
+    );
 
-      // Configure shadows
-      if (config.directional.shadowEnabled) {
-        directionalLight.castShadow = true;
-        directionalLight.shadow.mapSize.width =
-          config.directional.shadowResolution;
-        directionalLight.shadow.mapSize.height =
-          config.directional.shadowResolution;
-        directionalLight.shadow.camera.near = 0.5;
-        directionalLight.shadow.camera.far = 100;
-        directionalLight.shadow.camera.left = -50;
-        directionalLight.shadow.camera.right = 50;
-        directionalLight.shadow.camera.top = 50;
-        directionalLight.shadow.camera.bottom = -50;
-        directionalLight.shadow.bias = -0.001;
-      }
+    this.scene.add(fillLight);
+    return fillLight;
+  }
+
+  /**
+   * Creates, updates or removes the fog
+   */
+  private applyFogConfig(config: LightingConfig): void {
+    this.baseFogDensity = config.fog.density;
 
-      this.scene.add(directionalLight);
-      result.directionalLight = directionalLight;
+    if (!config.fog.enabled) {
+      if (this.scene.fog === this.fog) this.scene.fog = null;
+      this.fog = null;
+      return;
     }
 
-    // Fill light
-    if (config.fill.enabled) {
-      const fillLight = new THREE.DirectionalLight(
-        config.fill.color,
-        config.fill.intensity
-      );
-      fillLight.position.set(
-        config.fill.position[0],
-        config.fill.position[1],
-        config.fill.position[2]
-      );
-      this.scene.add(fillLight);
-      result.fillLight = fillLight;
+    if (this.fog) {
+      this.fog.color.setHex(config.fog.color);
+    } else {
+      this.fog = new THREE.FogExp2(config.fog.color, config.fog.density);
+      this.scene.fog = this.fog;
     }
+    this.applyFogDensity();
+  }
 
-    // Fog
-    if (config.fog.enabled) {
-      this.scene.fog = new THREE.FogExp2(config.fog.color, config.fog.density);
+  /**
+   * Starts, restarts or stops the day/night cycle
+   */
+  private applyTimeOfDayConfig(config: LightingConfig): void {
+    if (config.timeOfDay?.enabled) {
+      // Start the day/night cycle at the configured time
+      this.dayNightCycle = new DayNightCycle(config.timeOfDay);
+      this.applyTimeOfDay();
+    } else if (this.dayNightCycle) {
+      this.dayNightCycle = null;
+      this.setCityLightLevel(1);
     }
+  }
 
-    return result;
+  /**
+   * Updates the lights, fog and day/night cycle in place
+   * @param previous The lighting configuration the scene was built with
+   * @param config The new lighting configuration
+   */
+  private applyLightingConfig(
+    previous: LightingConfig,
+    config: LightingConfig
+  ): void {
+    const { ambient, directional, fill } = this.lights;
+
+    if (!config.ambient.enabled) {
+      this.removeLight("ambient");
+    } else if (!ambient) {
+      this.lights.ambient = this.createAmbientLight(config);
+    } else {
+      ambient.color.setHex(config.ambient.color);
+      ambient.intensity = config.ambient.intensity;
+    }
+
+    if (!config.directional.enabled) {
+      this.removeLight("directional");
+    } else if (!directional) {
+      this.lights.directional = this.createDirectionalLight(config);
+    } else {
+      directional.color.setHex(config.directional.color);
+      directional.intensity = config.directional.intensity;
+      directional.position.set(...config.directional.position);
+      this.configureDirectionalShadows(directional, config);
+    }
+
+    if (!config.fill.enabled) {
+      this.removeLight("fill");
+    } else if (!fill) {
+      this.lights.fill = this.createFillLight(config);
+    } else {
+      fill.color.setHex(config.fill.color);
+      fill.intensity = config.fill.intensity;
+      fill.position.set(...config.fill.position);
+    }
+
+    this.applyFogConfig(config);
+
+    // The day/night cycle overrides the static colors set above
+    if (JSON.stringify(previous.timeOfDay) !== JSON.stringify(config.timeOfDay)) {
+      this.applyTimeOfDayConfig(config);
+    } else {
+      this.applyTimeOfDay();
+    }
+  }
+
+  /**
+   * Removes and disposes one of the lights created by setupLighting
+   */
+  private removeLight(key: keyof EnvironmentLights): void {
+    const light = this.lights[key];
+    if (!light) return;
+
+    this.scene.remove(light);
+    light.dispose();
+    delete this.lights[key];
+  }
+
+  /**
+   * Removes all lights and the fog created by setupLighting
+   */
+  private removeLights(): void {
+    (Object.keys(this.lights) as (keyof EnvironmentLights)[]).forEach((key) =>
+      this.removeLight(key)
+    );
+    if (this.fog && this.scene.fog === this.fog) {
+      this.scene.fog = null;
+    }
+    this.fog = null;
+  }
+
+  /**
+   * Updates the live environment to a partial configuration. Only what changed
+   * is touched: colors and intensities are updated in place, while objects
+   * whose structure changed (ground size, road layout, street light
+   * positions, rain volume) are rebuilt.
+   * @param patch The settings to change
+   * @returns The resulting full configuration
+   */
+  applyConfig(patch: EnvironmentConfigPatch): EnvironmentConfig {
+    const config = mergeConfig(this.config, patch);
+    this.reconfigure(config);
+    return config;
+  }
+
+  /**
+   * Diffs a new configuration against the current one and updates the scene
+   * @param config The new full configuration
+   */
+  private reconfigure(config: EnvironmentConfig): void {
+    const previous = this.config;
+    this.config = config;
+
+    // Ground and roads; surfaces are detached from the weather while they
+    // change so the wet look is re-applied on top of the new dry look
+    const groundStructure = (ground: GroundConfig) =>
+      JSON.stringify({ ...ground, color: 0, roughness: 0, roadColor: 0 });
+    const rebuildGround = groundStructure(previous.ground) !== groundStructure(config.ground);
+    if (rebuildGround) {
+      if (config.ground.enabled) {
+        this.createGround();
+      } else {
+        this.removeGround();
+        this.events.emit("groundChange", undefined);
+      }
+    } else if (this.ground) {
+      this.weatherSystem?.setWetSurfaces([]);
+      this.ground.material.color.setHex(config.ground.color);
+      this.ground.material.roughness = config.ground.roughness;
+      const roadMaterial = this.roadMeshes?.surface.material;
+      if (roadMaterial instanceof THREE.MeshStandardMaterial) {
+        roadMaterial.color.setHex(config.ground.roadColor);
+      }
+      this.weatherSystem?.setWetSurfaces(this.wetSurfaces);
+    }
+
+    // Street lights; automatically placed lights follow the roads
+    const streetLights = config.streetLights;
+    if (!streetLights.enabled) {
+      this.removeStreetLights();
+    } else if (
+      !this.streetLightSystem ||
+      (rebuildGround && streetLights.placement === "auto") ||
+      !this.streetLightSystem.updateConfig(streetLights)
+    ) {
+      this.createStreetLights();
+    }
+
+    this.applyLightingConfig(previous.lighting, config.lighting);
+
+    // Weather: switching type blends, other changes rebuild the rain while
+    // keeping weather set at runtime through setWeather
+    const weather = config.weather;
+    const currentWeather = this.getWeather();
+    const weatherStructure = (value?: WeatherConfig) =>
+      JSON.stringify({ ...value, type: undefined });
+    if (!weather?.enabled) {
+      this.removeWeather();
+    } else if (
+      !this.weatherSystem ||
+      weatherStructure(previous.weather) !== weatherStructure(weather)
+    ) {
+      this.setupWeather();
+      if (currentWeather && previous.weather?.type === weather.type) {
+        this.weatherSystem?.setWeather(currentWeather, 0);
+      }
+    } else if (previous.weather?.type !== weather.type) {
+      this.weatherSystem.setWeather(weather.type);
+    }
   }
 
   /**
@@ -325,16 +890,35 @@ export class CityEnvironment {
    * @returns All created environment objects
    */
   initialize() {
+    // Replace anything created by an earlier call
+    this.dispose();
+
     const ground = this.createGround();
     const streetLights = this.createStreetLights();
     const lighting = this.setupLighting();
+    const weather = this.setupWeather();
 
+    this.initialized = true;
     return {
       ground,
       streetLights,
       lighting,
+      weather,
     };
   }
+
+  /**
+   * Removes everything the environment added to the scene and frees its GPU resources
+   */
+  dispose(): void {
+    this.removeWeather();
+    this.removeStreetLights();
+    this.removeLights();
+    this.removeGround();
+    this.dayNightCycle = null;
+    this.cityLightLevel = 1;
+    this.initialized = false;
+  }
 }
 
 /**
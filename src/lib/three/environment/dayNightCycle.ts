@@ -0,0 +1,237 @@
+import * as THREE from "three";
+import type { TimeOfDayConfig, TimeOfDayKeyframe } from "../types";
+
+/**
+ * Interpolated lighting state for a time of day
+ */
+export interface TimeOfDayState {
+  hours: number;
+  /** Unit direction from the scene towards the sun (or the moon at night) */
+  sunDirection: THREE.Vector3;
+  sunColor: THREE.Color;
+  sunIntensity: number;
+  ambientColor: THREE.Color;
+  ambientIntensity: number;
+  fillColor: THREE.Color;
+  fillIntensity: number;
+  fogColor: THREE.Color;
+  fogDensity: number;
+  skyColor: THREE.Color;
+  cityLights: number;
+}
+
+/** Hour at which the sun rises in the east; it sets twelve hours later */
+const SUNRISE_HOUR = 6;
+/** Tilt of the sun's arc towards +Z, so noon shadows aren't straight down */
+const ARC_TILT = 0.35;
+/** Sun elevation (sine) below which the light fades out while sun and moon swap */
+const HORIZON_FADE = 0.15;
+
+/** Night preset, matching the static lighting of the default city configuration */
+const NIGHT_KEYFRAME: Omit<TimeOfDayKeyframe, "hour"> = {
+  sunColor: 0x99aaff, // Moonlight
+  sunIntensity: 0.5,
+  ambientColor: 0x444444,
+  ambientIntensity: 0.5,
+  fillColor: 0x8888ff,
+  fillIntensity: 0.3,
+  fogColor: 0x090909,
+  fogDensity: 0.003,
+  skyColor: 0x111111,
+  cityLights: 1,
+};
+
+/**
+ * Dawn, noon, dusk and night presets; night holds from 21:00 until 4:00
+ */
+export const DEFAULT_TIME_OF_DAY_KEYFRAMES: TimeOfDayKeyframe[] = [
+  { hour: 4, ...NIGHT_KEYFRAME },
+  {
+    hour: 6, // Dawn
+    sunColor: 0xffa070,
+    sunIntensity: 0.5,
+    ambientColor: 0x554455,
+    ambientIntensity: 0.4,
+    fillColor: 0x8888ff,
+    fillIntensity: 0.2,
+    fogColor: 0x3a2a30,
+    fogDensity: 0.004,
+    skyColor: 0x4a3040,
+    cityLights: 0.4,
+  },
+  {
+    hour: 12, // Noon
+    sunColor: 0xffffff,
+    sunIntensity: 1.2,
+    ambientColor: 0x888888,
+    ambientIntensity: 0.8,
+    fillColor: 0x8888ff,
+    fillIntensity: 0.3,
+    fogColor: 0x9aa8b8,
+    fogDensity: 0.002,
+    skyColor: 0x87a8c8,
+    cityLights: 0,
+  },
+  {
+    hour: 18.5, // Dusk
+    sunColor: 0xff7040,
+    sunIntensity: 0.5,
+    ambientColor: 0x443344,
+    ambientIntensity: 0.4,
+    fillColor: 0x6666cc,
+    fillIntensity: 0.25,
+    fogColor: 0x2a1a28,
+    fogDensity: 0.003,
+    skyColor: 0x3a2038,
+    cityLights: 1,
+  },
+  { hour: 21, ...NIGHT_KEYFRAME },
+];
+
+/**
+ * Wraps an hour value into the range [0, 24)
+ */
+const wrapHours = (hours: number): number => ((hours % 24) + 24) % 24;
+
+/**
+ * Time-of-day clock that interpolates lighting keyframes and moves the sun
+ * along an arc from east (sunrise) over the sky to west (sunset). At night
+ * the light comes from the opposite side of the arc, as moonlight.
+ */
+export class DayNightCycle {
+  private keyframes: TimeOfDayKeyframe[];
+  private hours: number;
+  private timeScale: number;
+
+  /**
+   * Creates a day/night cycle
+   * @param config Optional time-of-day configuration
+   */
+  constructor(config?: TimeOfDayConfig) {
+    this.keyframes = [...(config?.keyframes ?? DEFAULT_TIME_OF_DAY_KEYFRAMES)].sort(
+      (a, b) => a.hour - b.hour
+    );
+    this.hours = wrapHours(config?.hours ?? 22);
+    this.timeScale = config?.timeScale ?? 0;
+  }
+
+  getHours(): number {
+    return this.hours;
+  }
+
+  /**
+   * Sets the time of day
+   * @param hours Hours since midnight (wrapped into 0-24)
+   */
+  setHours(hours: number): void {
+    this.hours = wrapHours(hours);
+  }
+
+  getTimeScale(): number {
+    return this.timeScale;
+  }
+
+  /**
+   * Sets the animation speed
+   * @param timeScale Simulated hours per real second (0 stops the clock)
+   */
+  setTimeScale(timeScale: number): void {
+    this.timeScale = Math.max(0, timeScale);
+  }
+
+  /**
+   * Advances the clock by the time scale
+   * @param deltaSeconds Real time elapsed since the last call
+   * @returns True if the time of day changed
+   */
+  advance(deltaSeconds: number): boolean {
+    if (this.timeScale === 0 || deltaSeconds <= 0) return false;
+    this.hours = wrapHours(this.hours + deltaSeconds * this.timeScale);
+    return true;
+  }
+
+  /**
+   * Computes the lighting state for the current time of day
+   * @returns The interpolated state
+   */
+  sample(): TimeOfDayState {
+    const { from, to, t } = this.findKeyframes(this.hours);
+    const color = (a: number, b: number) =>
+      new THREE.Color(a).lerp(new THREE.Color(b), t);
+    const value = (a: number, b: number) => a + (b - a) * t;
+
+    // Fade out around sunrise and sunset so the switch to the moon is invisible
+    const elevation = Math.abs(
+      Math.sin(((this.hours - SUNRISE_HOUR) / 12) * Math.PI)
+    );
+    const horizonFade = THREE.MathUtils.smoothstep(elevation, 0, HORIZON_FADE);
+
+    return {
+      hours: this.hours,
+      sunDirection: this.getSunDirection(this.hours),
+      sunColor: color(from.sunColor, to.sunColor),
+      sunIntensity: value(from.sunIntensity, to.sunIntensity) * horizonFade,
+      ambientColor: color(from.ambientColor, to.ambientColor),
+      ambientIntensity: value(from.ambientIntensity, to.ambientIntensity),
+      fillColor: color(from.fillColor, to.fillColor),
+      fillIntensity: value(from.fillIntensity, to.fillIntensity),
+      fogColor: color(from.fogColor, to.fogColor),
+      fogDensity: value(from.fogDensity, to.fogDensity),
+      skyColor: color(from.skyColor, to.skyColor),
+      cityLights: value(from.cityLights, to.cityLights),
+    };
+  }
+
+  /**
+   * Finds the keyframes around an hour, wrapping around midnight
+   */
+  private findKeyframes(hours: number): {
+    from: TimeOfDayKeyframe;
+    to: TimeOfDayKeyframe;
+    t: number;
+  } {
+    const keyframes = this.keyframes;
+    const nextIndex = keyframes.findIndex((keyframe) => keyframe.hour > hours);
+
+    const to = keyframes[nextIndex === -1 ? 0 : nextIndex];
+    const from =
+      keyframes[nextIndex <= 0 ? keyframes.length - 1 : nextIndex - 1];
+
+    // Hours from `from` to `to` and from `from` to now, across midnight if needed
+    const span = wrapHours(to.hour - from.hour) || 24;
+    const elapsed = wrapHours(hours - from.hour);
+    return { from, to, t: keyframes.length > 1 ? elapsed / span : 0 };
+  }
+
+  /**
+   * Computes where the light comes from at a given hour
+   */
+  private getSunDirection(hours: number): THREE.Vector3 {
+    // 0 at sunrise, PI at sunset
+    const angle = ((hours - SUNRISE_HOUR) / 12) * Math.PI;
+    const direction = new THREE.Vector3(
+      Math.cos(angle),
+      Math.sin(angle),
+      ARC_TILT
+    );
+
+    // Below the horizon the moon takes over from the opposite side
+    if (direction.y < 0) {
+      direction.x = -direction.x;
+      direction.y = -direction.y;
+    }
+
+    // Keep a minimum elevation so long shadows don't stretch to infinity
+    direction.y = Math.max(direction.y, HORIZON_FADE);
+    return direction.normalize();
+  }
+}
+
+/**
+ * Creates a day/night cycle
+ * @param config Optional time-of-day configuration
+ * @returns A DayNightCycle instance
+ */
+export const createDayNightCycle = (config?: TimeOfDayConfig): DayNightCycle => {
+  return new DayNightCycle(config);
+};
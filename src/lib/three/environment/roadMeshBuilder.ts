@@ -0,0 +1,385 @@
+import * as THREE from "three";
+import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import type { RoadEdge, RoadNetwork } from "./roadNetwork";
+
+/**
+ * Options for building road meshes
+ */
+export interface RoadMeshOptions {
+  roadColor: number;
+  sidewalkColor?: number;
+  curbColor?: number;
+  markingColor?: number;
+}
+
+/**
+ * Meshes generated for a road network
+ */
+export interface RoadMeshes {
+  /** Group containing all road meshes */
+  group: THREE.Group;
+  /** Road and intersection surfaces */
+  surface: THREE.Mesh;
+  /** Lane markings, or null if the network has none */
+  markings: THREE.Mesh | null;
+  /** Sidewalks, or null if sidewalks are disabled */
+  sidewalks: THREE.Mesh | null;
+  /** Curbs, or null if sidewalks are disabled */
+  curbs: THREE.Mesh | null;
+}
+
+type Point = [number, number];
+
+/** Height of road surfaces above the ground to prevent z-fighting */
+const ROAD_Y = 0.01;
+/** Height of lane markings above the road surface */
+const MARKING_Y = 0.02;
+/** Width of painted lane markings */
+const MARKING_WIDTH = 0.15;
+/** Dash and gap length of dashed lane markings */
+const DASH_LENGTH = 3;
+const DASH_GAP = 6;
+/** Width of the curb stone between road and sidewalk */
+const CURB_WIDTH = 0.2;
+/** World units per texture repeat for road UVs */
+const UV_SCALE = 0.1;
+
+/**
+ * Accumulates flat, upward-facing triangles into a single geometry
+ */
+class FlatGeometryBatch {
+  private positions: number[] = [];
+  private uvs: number[] = [];
+
+  get isEmpty(): boolean {
+    return this.positions.length === 0;
+  }
+
+  /**
+   * Adds a convex polygon, wound so that it faces upwards
+   */
+  addPolygon(points: Point[], y: number): void {
+    // Signed area on the X/Z plane; positive polygons need their triangles
+    // reversed for the normal to point along +Y
+    let area = 0;
+    points.forEach(([x1, z1], i) => {
+      const [x2, z2] = points[(i + 1) % points.length];
+      area += x1 * z2 - x2 * z1;
+    });
+
+    for (let i = 1; i < points.length - 1; i++) {
+      const triangle =
+        area > 0
+          ? [points[0], points[i + 1], points[i]]
+          : [points[0], points[i], points[i + 1]];
+      triangle.forEach(([x, z]) => {
+        this.positions.push(x, y, z);
+        this.uvs.push(x * UV_SCALE, z * UV_SCALE);
+      });
+    }
+  }
+
+  toGeometry(): THREE.BufferGeometry {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute(
+      "position",
+      new THREE.Float32BufferAttribute(this.positions, 3)
+    );
+    geometry.setAttribute("uv", new THREE.Float32BufferAttribute(this.uvs, 2));
+    geometry.computeVertexNormals();
+    return geometry;
+  }
+}
+
+/**
+ * Computes the convex hull of a set of points (monotone chain)
+ * @param points The points
+ * @returns Hull points in order around the hull
+ */
+const convexHull = (points: Point[]): Point[] => {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  if (sorted.length < 3) return sorted;
+
+  const cross = (o: Point, a: Point, b: Point) =>
+    (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+  const lower: Point[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) {
+      lower.pop();
+    }
+    lower.push(point);
+  }
+
+  const upper: Point[] = [];
+  for (const point of [...sorted].reverse()) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) {
+      upper.pop();
+    }
+    upper.push(point);
+  }
+
+  lower.pop();
+  upper.pop();
+  return lower.concat(upper);
+};
+
+/**
+ * Creates a rectangle running along an edge
+ * @param start Start point of the center line
+ * @param direction Unit direction of the edge
+ * @param length Length of the rectangle along the edge
+ * @param lateralFrom Left border as signed distance from the center line
+ * @param lateralTo Right border as signed distance from the center line
+ * @returns The four corners in order around the rectangle
+ */
+const edgeRectangle = (
+  start: Point,
+  direction: Point,
+  length: number,
+  lateralFrom: number,
+  lateralTo: number
+): Point[] => {
+  const normal: Point = [-direction[1], direction[0]];
+  const at = (along: number, lateral: number): Point => [
+    start[0] + direction[0] * along + normal[0] * lateral,
+    start[1] + direction[1] * along + normal[1] * lateral,
+  ];
+
+  return [
+    at(0, lateralFrom),
+    at(0, lateralTo),
+    at(length, lateralTo),
+    at(length, lateralFrom),
+  ];
+};
+
+/**
+ * Gets the part of an edge between the intersection areas of its nodes
+ */
+const trimEdge = (
+  network: RoadNetwork,
+  edge: RoadEdge
+): { start: Point; length: number } | null => {
+  const from = network.getNode(edge.from)!;
+  const startTrim = network.getNodeClearance(edge.from);
+  const length = edge.length - startTrim - network.getNodeClearance(edge.to);
+  if (length <= 0) return null;
+
+  return {
+    start: [
+      from.x + edge.direction[0] * startTrim,
+      from.z + edge.direction[1] * startTrim,
+    ],
+    length,
+  };
+};
+
+/**
+ * Creates a box running along an edge, from lateralFrom to lateralTo
+ */
+const createEdgeBox = (
+  start: Point,
+  direction: Point,
+  length: number,
+  lateralFrom: number,
+  lateralTo: number,
+  height: number
+): THREE.BufferGeometry => {
+  const width = lateralTo - lateralFrom;
+  const lateral = (lateralFrom + lateralTo) / 2;
+  const geometry = new THREE.BoxGeometry(length, height, width);
+
+  geometry.rotateY(-Math.atan2(direction[1], direction[0]));
+  geometry.translate(
+    start[0] + direction[0] * (length / 2) - direction[1] * lateral,
+    height / 2,
+    start[1] + direction[1] * (length / 2) + direction[0] * lateral
+  );
+
+  return geometry;
+};
+
+/**
+ * Builds road surfaces, intersections, lane markings, sidewalks and curbs
+ * for a road network
+ * @param network The road network
+ * @param options Colors for the generated materials
+ * @returns The generated meshes
+ */
+export const createRoadMeshes = (
+  network: RoadNetwork,
+  options: RoadMeshOptions
+): RoadMeshes => {
+  const config = network.config;
+  const group = new THREE.Group();
+  group.name = "roads";
+
+  const surfaceBatch = new FlatGeometryBatch();
+  const markingBatch = new FlatGeometryBatch();
+  const sidewalkGeometries: THREE.BufferGeometry[] = [];
+  const curbGeometries: THREE.BufferGeometry[] = [];
+
+  network.getEdges().forEach((edge) => {
+    const trimmed = trimEdge(network, edge);
+    if (!trimmed) return;
+
+    const { start, length } = trimmed;
+    const halfWidth = edge.width / 2;
+
+    // Road surface
+    surfaceBatch.addPolygon(
+      edgeRectangle(start, edge.direction, length, -halfWidth, halfWidth),
+      ROAD_Y
+    );
+
+    // Lane dividers: solid in the middle of two-way roads, dashed elsewhere
+    if (config.laneMarkings !== false && edge.lanes > 1) {
+      for (let lane = 1; lane < edge.lanes; lane++) {
+        const lateral = -halfWidth + (lane * edge.width) / edge.lanes;
+        const from = lateral - MARKING_WIDTH / 2;
+        const to = lateral + MARKING_WIDTH / 2;
+
+        if (lane * 2 === edge.lanes) {
+          markingBatch.addPolygon(
+            edgeRectangle(start, edge.direction, length, from, to),
+            MARKING_Y
+          );
+          continue;
+        }
+
+        for (let along = 0; along < length; along += DASH_LENGTH + DASH_GAP) {
+          const dashStart: Point = [
+            start[0] + edge.direction[0] * along,
+            start[1] + edge.direction[1] * along,
+          ];
+          markingBatch.addPolygon(
+            edgeRectangle(
+              dashStart,
+              edge.direction,
+              Math.min(DASH_LENGTH, length - along),
+              from,
+              to
+            ),
+            MARKING_Y
+          );
+        }
+      }
+    }
+
+    // Sidewalks and curbs on both sides
+    if (config.sidewalkWidth > 0) {
+      const curbWidth = Math.min(CURB_WIDTH, config.sidewalkWidth);
+      const sidewalkHeight = Math.max(config.curbHeight, 0.01);
+
+      [-1, 1].forEach((side) => {
+        const curbFrom = halfWidth;
+        const curbTo = halfWidth + curbWidth;
+        const walkTo = halfWidth + config.sidewalkWidth;
+
+        curbGeometries.push(
+          createEdgeBox(
+            start,
+            edge.direction,
+            length,
+            Math.min(side * curbFrom, side * curbTo),
+            Math.max(side * curbFrom, side * curbTo),
+            sidewalkHeight
+          )
+        );
+
+        if (walkTo > curbTo) {
+          sidewalkGeometries.push(
+            createEdgeBox(
+              start,
+              edge.direction,
+              length,
+              Math.min(side * curbTo, side * walkTo),
+              Math.max(side * curbTo, side * walkTo),
+              sidewalkHeight
+            )
+          );
+        }
+      });
+    }
+  });
+
+  // Intersection patches covering the area between the trimmed road ends
+  network.getNodes().forEach((node) => {
+    if (node.edgeIds.length < 2) return;
+
+    const clearance = network.getNodeClearance(node.id);
+    const corners: Point[] = [];
+
+    node.edgeIds.forEach((edgeId) => {
+      const edge = network.getEdge(edgeId)!;
+      // Direction pointing away from this node
+      const sign = edge.from === node.id ? 1 : -1;
+      const direction: Point = [edge.direction[0] * sign, edge.direction[1] * sign];
+      corners.push(
+        ...edgeRectangle([node.x, node.z], direction, clearance, -edge.width / 2, edge.width / 2).slice(2)
+      );
+    });
+
+    surfaceBatch.addPolygon(convexHull(corners), ROAD_Y);
+  });
+
+  // Road surface mesh
+  const surface = new THREE.Mesh(
+    surfaceBatch.toGeometry(),
+    new THREE.MeshStandardMaterial({
+      color: options.roadColor,
+      roughness: 0.6,
+    })
+  );
+  surface.name = "road-surface";
+  surface.receiveShadow = true;
+  group.add(surface);
+
+  // Lane markings
+  let markings: THREE.Mesh | null = null;
+  if (!markingBatch.isEmpty) {
+    markings = new THREE.Mesh(
+      markingBatch.toGeometry(),
+      new THREE.MeshStandardMaterial({
+        color: options.markingColor ?? 0xcccccc,
+        roughness: 0.5,
+      })
+    );
+    markings.name = "road-markings";
+    markings.receiveShadow = true;
+    group.add(markings);
+  }
+
+  // Sidewalks and curbs
+  let sidewalks: THREE.Mesh | null = null;
+  let curbs: THREE.Mesh | null = null;
+  if (sidewalkGeometries.length > 0) {
+    sidewalks = new THREE.Mesh(
+      mergeGeometries(sidewalkGeometries),
+      new THREE.MeshStandardMaterial({
+        color: options.sidewalkColor ?? 0x444444,
+        roughness: 0.9,
+      })
+    );
+    sidewalks.name = "sidewalks";
+    sidewalks.receiveShadow = true;
+    group.add(sidewalks);
+  }
+  if (curbGeometries.length > 0) {
+    curbs = new THREE.Mesh(
+      mergeGeometries(curbGeometries),
+      new THREE.MeshStandardMaterial({
+        color: options.curbColor ?? 0x666666,
+        roughness: 0.8,
+      })
+    );
+    curbs.name = "curbs";
+    curbs.receiveShadow = true;
+    curbs.castShadow = true;
+    group.add(curbs);
+  }
+  [...sidewalkGeometries, ...curbGeometries].forEach((geometry) => geometry.dispose());
+
+  return { group, surface, markings, sidewalks, curbs };
+};
@@ -0,0 +1,440 @@
+import type {
+  GraphRoadNetworkConfig,
+  GridRoadNetworkConfig,
+  RoadNetworkConfig,
+} from "../types";
+import type { OrientedFootprint } from "../utils/footprint";
+
+/**
+ * A node of the road network (intersection, bend or dead end)
+ */
+export interface RoadNode {
+  id: string;
+  x: number;
+  z: number;
+  /** Ids of the edges connected to this node */
+  edgeIds: string[];
+}
+
+/**
+ * A straight road between two nodes
+ */
+export interface RoadEdge {
+  id: string;
+  from: string;
+  to: string;
+  width: number;
+  lanes: number;
+  length: number;
+  /** Unit direction from `from` to `to` on the X/Z plane */
+  direction: [number, number];
+}
+
+/**
+ * Nearest point on the road network to a query point
+ */
+export interface RoadQueryResult {
+  edge: RoadEdge;
+  /** Closest point on the edge centerline */
+  point: [number, number];
+  /** Distance from the query point to the centerline */
+  distanceToCenter: number;
+  /** Distance from the query point to the road surface (0 when on the road) */
+  distanceToSurface: number;
+  /** Position along the edge from its `from` node, in meters */
+  offset: number;
+}
+
+/**
+ * Default network used when the ground config has no `roads` section:
+ * one horizontal and one vertical road crossing at the origin.
+ * @param groundSize Side length of the ground plane
+ * @returns The road network configuration
+ */
+export const createDefaultRoadNetworkConfig = (
+  groundSize: number
+): GraphRoadNetworkConfig => {
+  const half = (groundSize * 0.9) / 2;
+
+  return {
+    layout: "graph",
+    width: 10, // Standard two-lane road is 10 meters wide
+    lanes: 2,
+    sidewalkWidth: 0,
+    curbHeight: 0,
+    laneMarkings: true,
+    nodes: [
+      { id: "center", x: 0, z: 0 },
+      { id: "west", x: -half, z: 0 },
+      { id: "east", x: half, z: 0 },
+      { id: "north", x: 0, z: -half },
+      { id: "south", x: 0, z: half },
+    ],
+    edges: [
+      { from: "west", to: "center" },
+      { from: "center", to: "east" },
+      { from: "north", to: "center" },
+      { from: "center", to: "south" },
+    ],
+  };
+};
+
+/**
+ * Grid line offsets of a grid layout, shared by the X and Z axes
+ */
+export interface GridLines {
+  /** Offsets of the roads, from -n to +n blocks around the center */
+  lines: number[];
+  /** Road ends along each line: the grid lines plus the edges of the covered area */
+  stops: number[];
+}
+
+/**
+ * Computes where the roads of a grid layout run
+ * @param config The grid configuration
+ * @param groundSize Side length of the ground plane
+ * @returns The grid lines and road stops
+ */
+export const getGridLines = (
+  config: GridRoadNetworkConfig,
+  groundSize: number
+): GridLines => {
+  const half = (config.extent ?? groundSize * 0.9) / 2;
+  const lineCount = Math.floor(half / config.blockSize);
+
+  // Grid line offsets, from -lineCount to +lineCount blocks around the center
+  const lines: number[] = [];
+  for (let i = -lineCount; i <= lineCount; i++) {
+    lines.push(i * config.blockSize);
+  }
+
+  // Roads continue to the edge of the covered area as dead ends
+  const stops = [...lines];
+  if (half - lineCount * config.blockSize > 1e-6) {
+    stops.unshift(-half);
+    stops.push(half);
+  }
+
+  return { lines, stops };
+};
+
+/**
+ * Gets the size of the road on a grid line (major roads are wider)
+ * @param config The grid configuration
+ * @param lineOffset Offset of the grid line
+ * @returns Road width and lane count
+ */
+export const getGridRoadSize = (
+  config: GridRoadNetworkConfig,
+  lineOffset: number
+): { width: number; lanes: number } => {
+  const index = Math.round(lineOffset / config.blockSize);
+  const major = config.majorRoads && index % config.majorRoads.every === 0;
+  return major
+    ? { width: config.majorRoads!.width, lanes: config.majorRoads!.lanes }
+    : { width: config.width, lanes: config.lanes };
+};
+
+/**
+ * Expands a grid layout into an explicit graph
+ * @param config The grid configuration
+ * @param groundSize Side length of the ground plane
+ * @returns The equivalent graph configuration
+ */
+const expandGrid = (
+  config: GridRoadNetworkConfig,
+  groundSize: number
+): GraphRoadNetworkConfig => {
+  const { lines, stops } = getGridLines(config, groundSize);
+
+  const nodeId = (x: number, z: number) => `${x},${z}`;
+  const nodes = new Map<string, { id: string; x: number; z: number }>();
+  const addNode = (x: number, z: number) => {
+    const id = nodeId(x, z);
+    if (!nodes.has(id)) nodes.set(id, { id, x, z });
+    return id;
+  };
+
+  const edges: GraphRoadNetworkConfig["edges"] = [];
+  lines.forEach((line) => {
+    const size = getGridRoadSize(config, line);
+    for (let i = 0; i < stops.length - 1; i++) {
+      // Road running along X at z = line
+      edges.push({
+        from: addNode(stops[i], line),
+        to: addNode(stops[i + 1], line),
+        ...size,
+      });
+      // Road running along Z at x = line
+      edges.push({
+        from: addNode(line, stops[i]),
+        to: addNode(line, stops[i + 1]),
+        ...size,
+      });
+    }
+  });
+
+  return {
+    ...config,
+    layout: "graph",
+    nodes: Array.from(nodes.values()),
+    edges,
+  };
+};
+
+/**
+ * Queryable graph of the city's roads.
+ *
+ * Built from the `roads` section of the ground configuration and shared with
+ * other systems (street lights, traffic, collision checks).
+ */
+export class RoadNetwork {
+  readonly config: GraphRoadNetworkConfig;
+  private nodes = new Map<string, RoadNode>();
+  private edges = new Map<string, RoadEdge>();
+
+  /**
+   * Creates a road network from a graph configuration
+   * @param config The graph configuration (use RoadNetwork.fromConfig for grids)
+   */
+  constructor(config: GraphRoadNetworkConfig) {
+    this.config = config;
+
+    config.nodes.forEach((node) => {
+      this.nodes.set(node.id, { ...node, edgeIds: [] });
+    });
+
+    config.edges.forEach((edgeConfig, index) => {
+      const from = this.nodes.get(edgeConfig.from);
+      const to = this.nodes.get(edgeConfig.to);
+      if (!from || !to) {
+        console.warn(
+          `Skipping road ${edgeConfig.from} -> ${edgeConfig.to}: unknown node`
+        );
+        return;
+      }
+
+      const dx = to.x - from.x;
+      const dz = to.z - from.z;
+      const length = Math.hypot(dx, dz);
+      if (length === 0) {
+        console.warn(`Skipping zero-length road ${edgeConfig.from} -> ${edgeConfig.to}`);
+        return;
+      }
+
+      const edge: RoadEdge = {
+        id: `road-${index}`,
+        from: from.id,
+        to: to.id,
+        width: edgeConfig.width ?? config.width,
+        lanes: edgeConfig.lanes ?? config.lanes,
+        length,
+        direction: [dx / length, dz / length],
+      };
+
+      this.edges.set(edge.id, edge);
+      from.edgeIds.push(edge.id);
+      to.edgeIds.push(edge.id);
+    });
+  }
+
+  /**
+   * Creates a road network from any supported layout
+   * @param config The road network configuration
+   * @param groundSize Side length of the ground plane (used by grid layouts)
+   * @returns The road network
+   */
+  static fromConfig(config: RoadNetworkConfig, groundSize: number): RoadNetwork {
+    return new RoadNetwork(
+      config.layout === "grid" ? expandGrid(config, groundSize) : config
+    );
+  }
+
+  getNodes(): RoadNode[] {
+    return Array.from(this.nodes.values());
+  }
+
+  getEdges(): RoadEdge[] {
+    return Array.from(this.edges.values());
+  }
+
+  getNode(id: string): RoadNode | undefined {
+    return this.nodes.get(id);
+  }
+
+  getEdge(id: string): RoadEdge | undefined {
+    return this.edges.get(id);
+  }
+
+  /**
+   * Gets the nodes where three or more roads meet
+   */
+  getIntersections(): RoadNode[] {
+    return this.getNodes().filter((node) => node.edgeIds.length >= 3);
+  }
+
+  /**
+   * Gets the nodes directly connected to a node
+   * @param id The node id
+   * @returns The neighbouring nodes
+   */
+  getNeighbors(id: string): RoadNode[] {
+    const node = this.nodes.get(id);
+    if (!node) return [];
+
+    return node.edgeIds.map((edgeId) => {
+      const edge = this.edges.get(edgeId)!;
+      return this.nodes.get(edge.from === id ? edge.to : edge.from)!;
+    });
+  }
+
+  /**
+   * Distance from a node's center to where the roads meeting there become
+   * plain road again (half the widest connected road, 0 for dead ends)
+   * @param id The node id
+   * @returns The clearance radius in meters
+   */
+  getNodeClearance(id: string): number {
+    const node = this.nodes.get(id);
+    if (!node || node.edgeIds.length < 2) return 0;
+
+    return Math.max(
+      ...node.edgeIds.map((edgeId) => this.edges.get(edgeId)!.width / 2)
+    );
+  }
+
+  /**
+   * Finds the closest road to a point
+   * @param x X coordinate
+   * @param z Z coordinate
+   * @returns The closest road or null if the network is empty
+   */
+  findNearestRoad(x: number, z: number): RoadQueryResult | null {
+    let best: RoadQueryResult | null = null;
+
+    this.edges.forEach((edge) => {
+      const from = this.nodes.get(edge.from)!;
+      const offset = Math.min(
+        edge.length,
+        Math.max(
+          0,
+          (x - from.x) * edge.direction[0] + (z - from.z) * edge.direction[1]
+        )
+      );
+      const px = from.x + edge.direction[0] * offset;
+      const pz = from.z + edge.direction[1] * offset;
+      const distanceToCenter = Math.hypot(x - px, z - pz);
+
+      if (!best || distanceToCenter - edge.width / 2 < best.distanceToSurface) {
+        best = {
+          edge,
+          point: [px, pz],
+          distanceToCenter,
+          distanceToSurface: Math.max(0, distanceToCenter - edge.width / 2),
+          offset,
+        };
+      }
+    });
+
+    return best;
+  }
+
+  /**
+   * Checks whether a point lies on a road
+   * @param x X coordinate
+   * @param z Z coordinate
+   * @param margin Extra distance around the road surface that still counts
+   * @returns True if the point is within margin of any road surface
+   */
+  isOnRoad(x: number, z: number, margin = 0): boolean {
+    const nearest = this.findNearestRoad(x, z);
+    return nearest !== null && nearest.distanceToCenter <= nearest.edge.width / 2 + margin;
+  }
+
+  /**
+   * Gets the ground rectangles covered by the roads, for collision checks
+   * @param includeSidewalks Widen each road by its sidewalks (default: true)
+   * @returns One rectangle per road, with the road's id
+   */
+  getRoadFootprints(includeSidewalks = true): OrientedFootprint[] {
+    const sidewalk = includeSidewalks ? this.config.sidewalkWidth : 0;
+
+    return this.getEdges().map((edge) => {
+      const from = this.nodes.get(edge.from)!;
+      const [dx, dz] = edge.direction;
+      return {
+        id: edge.id,
+        center: [from.x + (dx * edge.length) / 2, from.z + (dz * edge.length) / 2],
+        halfSize: [edge.length / 2, edge.width / 2 + sidewalk],
+        // Turns the rectangle's X axis along the road
+        rotation: Math.atan2(-dz, dx),
+      };
+    });
+  }
+
+  /**
+   * Finds the shortest route between two nodes (Dijkstra)
+   * @param fromId Start node id
+   * @param toId Destination node id
+   * @returns The node ids along the route, or null if unreachable
+   */
+  findPath(fromId: string, toId: string): string[] | null {
+    if (!this.nodes.has(fromId) || !this.nodes.has(toId)) return null;
+
+    const distances = new Map<string, number>([[fromId, 0]]);
+    const previous = new Map<string, string>();
+    const open = new Set<string>([fromId]);
+    const closed = new Set<string>();
+
+    while (open.size > 0) {
+      // The networks are small, a linear scan beats maintaining a heap
+      let current = "";
+      let currentDistance = Infinity;
+      open.forEach((id) => {
+        const distance = distances.get(id)!;
+        if (distance < currentDistance) {
+          current = id;
+          currentDistance = distance;
+        }
+      });
+
+      if (current === toId) break;
+      open.delete(current);
+      closed.add(current);
+
+      this.nodes.get(current)!.edgeIds.forEach((edgeId) => {
+        const edge = this.edges.get(edgeId)!;
+        const neighbor = edge.from === current ? edge.to : edge.from;
+        if (closed.has(neighbor)) return;
+
+        const distance = currentDistance + edge.length;
+        if (distance < (distances.get(neighbor) ?? Infinity)) {
+          distances.set(neighbor, distance);
+          previous.set(neighbor, current);
+          open.add(neighbor);
+        }
+      });
+    }
+
+    if (!distances.has(toId)) return null;
+
+    const path = [toId];
+    while (path[0] !== fromId) {
+      path.unshift(previous.get(path[0])!);
+    }
+    return path;
+  }
+}
+
+/**
+ * Creates a road network from a configuration
+ * @param config The road network configuration
+ * @param groundSize Side length of the ground plane (used by grid layouts)
+ * @returns A RoadNetwork instance
+ */
+export const createRoadNetwork = (
+  config: RoadNetworkConfig,
+  groundSize: number
+): RoadNetwork => {
+  return RoadNetwork.fromConfig(config, groundSize);
+};
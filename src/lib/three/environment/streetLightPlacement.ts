@@ -0,0 +1,118 @@
+import type { LightPosition, StreetLightAutoPlacementConfig } from "../types";
+import type { RoadNetwork } from "./roadNetwork";
+
+/**
+ * Axis-aligned rectangle on the ground plane that street lights must avoid
+ */
+export interface GroundObstacle {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+/** Poles closer than this to an already placed pole are dropped */
+const MIN_POLE_DISTANCE = 1;
+
+/**
+ * Computes the Y rotation that points a street light's arm (local +X)
+ * along a direction on the ground plane
+ * @param dx X component of the direction
+ * @param dz Z component of the direction
+ * @returns The rotation in radians
+ */
+const rotationTowards = (dx: number, dz: number): number => Math.atan2(-dz, dx);
+
+/**
+ * Derives street light positions from a road network. Poles are spaced evenly
+ * along every road, set back from the road edge, facing the road, and kept
+ * clear of intersections, other roads and building footprints.
+ * @param network The road network
+ * @param config Placement settings
+ * @param obstacles Building footprints (or other areas) to avoid
+ * @returns The street light positions
+ */
+export const computeStreetLightPositions = (
+  network: RoadNetwork,
+  config: StreetLightAutoPlacementConfig,
+  obstacles: GroundObstacle[] = []
+): LightPosition[] => {
+  const positions: LightPosition[] = [];
+  const sides = config.bothSides === false ? [1] : [1, -1];
+  const intersections = network.getIntersections();
+
+  const isBlocked = (x: number, z: number): boolean => {
+    if (
+      config.maxDistanceFromCenter !== undefined &&
+      Math.hypot(x, z) > config.maxDistanceFromCenter
+    ) {
+      return true;
+    }
+
+    // Not on any road surface (including roads other than the one we follow)
+    if (network.isOnRoad(x, z)) return true;
+
+    // Away from intersection areas
+    const nearIntersection = intersections.some(
+      (node) =>
+        Math.hypot(x - node.x, z - node.z) <
+        network.getNodeClearance(node.id) + config.intersectionClearance
+    );
+    if (nearIntersection) return true;
+
+    // Outside building footprints
+    const clearance = config.buildingClearance;
+    const inBuilding = obstacles.some(
+      (rect) =>
+        x > rect.minX - clearance &&
+        x < rect.maxX + clearance &&
+        z > rect.minZ - clearance &&
+        z < rect.maxZ + clearance
+    );
+    if (inBuilding) return true;
+
+    // Not on top of another pole (e.g. from a road continuing past a bend)
+    return positions.some(
+      (position) => Math.hypot(x - position.x, z - position.z) < MIN_POLE_DISTANCE
+    );
+  };
+
+  network.getEdges().forEach((edge) => {
+    const from = network.getNode(edge.from)!;
+    const [dx, dz] = edge.direction;
+    const normal: [number, number] = [-dz, dx];
+
+    // Usable stretch of road between the intersection areas at both ends
+    const start = network.getNodeClearance(edge.from) + config.intersectionClearance;
+    const end =
+      edge.length - network.getNodeClearance(edge.to) - config.intersectionClearance;
+    const span = end - start;
+    if (span < 0) return;
+
+    const count = Math.floor(span / config.spacing) + 1;
+    const firstOffset = start + (span - (count - 1) * config.spacing) / 2;
+    const lateral = edge.width / 2 + config.sideOffset;
+
+    sides.forEach((side, sideIndex) => {
+      const stagger = config.staggered && sideIndex === 1 ? config.spacing / 2 : 0;
+
+      for (let i = 0; i < count; i++) {
+        const along = firstOffset + i * config.spacing + stagger;
+        if (along > end) break;
+
+        const x = from.x + dx * along + normal[0] * lateral * side;
+        const z = from.z + dz * along + normal[1] * lateral * side;
+        if (isBlocked(x, z)) continue;
+
+        positions.push({
+          x,
+          z,
+          // The arm reaches back over the road
+          rotation: rotationTowards(-normal[0] * side, -normal[1] * side),
+        });
+      }
+    });
+  });
+
+  return positions;
+};
@@ -0,0 +1,247 @@
+import * as THREE from "three";
+import type { LightPosition, StreetLightConfig } from "../types";
+
+/** Height of the pole in meters (typical street lights are 5-7 m) */
+const POLE_HEIGHT = 6;
+/** Length of the arm reaching out over the road */
+const ARM_LENGTH = 1.5;
+/** Lamp head position relative to the base of the pole */
+const LAMP_OFFSET = new THREE.Vector3(ARM_LENGTH, POLE_HEIGHT - 0.2, 0);
+/** Camera movement (in meters) before lights are reassigned */
+const REASSIGN_DISTANCE = 1;
+
+/** Default number of poles that get a real PointLight */
+export const DEFAULT_MAX_ACTIVE_LIGHTS = 8;
+/** Default number of active lights that also cast shadows */
+export const DEFAULT_MAX_SHADOW_LIGHTS = 2;
+
+/**
+ * Instanced street lights with a light budget.
+ *
+ * Poles, arms and lamp heads are drawn as one InstancedMesh each with shared
+ * geometry and materials. Only the poles nearest to the camera get a real
+ * PointLight (and the nearest few of those a shadow map); every other lamp
+ * relies on its emissive material for the glow.
+ */
+export class StreetLightSystem {
+  readonly group = new THREE.Group();
+  private positions: LightPosition[];
+  private config: StreetLightConfig;
+  private lampPositions: THREE.Vector3[];
+  private poles: THREE.InstancedMesh;
+  private arms: THREE.InstancedMesh;
+  private lamps: THREE.InstancedMesh;
+  private poleMaterial: THREE.MeshStandardMaterial;
+  private lampMaterial: THREE.MeshStandardMaterial;
+  private lights: THREE.PointLight[] = [];
+  private lastCameraPosition = new THREE.Vector3(Infinity, Infinity, Infinity);
+  private level = 1;
+
+  /**
+   * Creates the street light meshes and the light pool
+   * @param positions Pole positions and rotations
+   * @param config Street light configuration
+   */
+  constructor(positions: LightPosition[], config: StreetLightConfig) {
+    this.positions = positions;
+    this.config = config;
+    this.group.name = "street-lights";
+
+    // Shared geometry and materials for all poles
+    const poleGeometry = new THREE.CylinderGeometry(0.15, 0.2, POLE_HEIGHT, 8);
+    poleGeometry.translate(0, POLE_HEIGHT / 2, 0); // Bottom at ground level
+    const armGeometry = new THREE.BoxGeometry(ARM_LENGTH, 0.1, 0.1);
+    armGeometry.translate(ARM_LENGTH / 2, POLE_HEIGHT, 0);
+    const lampGeometry = new THREE.SphereGeometry(0.3, 16, 16);
+    lampGeometry.translate(LAMP_OFFSET.x, LAMP_OFFSET.y, LAMP_OFFSET.z);
+
+    this.poleMaterial = new THREE.MeshStandardMaterial({ color: 0x888888 });
+    this.lampMaterial = new THREE.MeshStandardMaterial({
+      color: config.color,
+      emissive: config.color,
+      emissiveIntensity: 1,
+    });
+
+    const count = positions.length;
+    this.poles = new THREE.InstancedMesh(poleGeometry, this.poleMaterial, count);
+    this.arms = new THREE.InstancedMesh(armGeometry, this.poleMaterial, count);
+    this.lamps = new THREE.InstancedMesh(lampGeometry, this.lampMaterial, count);
+    this.poles.castShadow = true;
+    this.arms.castShadow = true;
+
+    // Same transform for all parts of a street light
+    const matrix = new THREE.Matrix4();
+    const rotation = new THREE.Quaternion();
+    const up = new THREE.Vector3(0, 1, 0);
+    const unitScale = new THREE.Vector3(1, 1, 1);
+    this.lampPositions = positions.map((position, index) => {
+      rotation.setFromAxisAngle(up, position.rotation);
+      matrix.compose(
+        new THREE.Vector3(position.x, 0, position.z),
+        rotation,
+        unitScale
+      );
+      this.poles.setMatrixAt(index, matrix);
+      this.arms.setMatrixAt(index, matrix);
+      this.lamps.setMatrixAt(index, matrix);
+
+      return LAMP_OFFSET.clone().applyMatrix4(matrix);
+    });
+
+    [this.poles, this.arms, this.lamps].forEach((mesh) => {
+      mesh.instanceMatrix.needsUpdate = true;
+      mesh.computeBoundingSphere();
+      this.group.add(mesh);
+    });
+
+    this.createLightPool();
+    this.assignLights(new THREE.Vector3(0, 0, 0));
+  }
+
+  /**
+   * Creates a fixed pool of point lights. The pool size never changes so
+   * moving the camera doesn't trigger shader recompilation.
+   */
+  private createLightPool(): void {
+    const config = this.config;
+    const poolSize = Math.min(
+      this.positions.length,
+      config.maxActiveLights ?? DEFAULT_MAX_ACTIVE_LIGHTS
+    );
+    const shadowCount = Math.min(
+      poolSize,
+      config.maxShadowLights ?? DEFAULT_MAX_SHADOW_LIGHTS
+    );
+
+    for (let i = 0; i < poolSize; i++) {
+      const light = new THREE.PointLight(
+        config.color,
+        config.intensity,
+        config.distance
+      );
+
+      // The pool is sorted by distance, so the first lights are the nearest
+      if (i < shadowCount) {
+        light.castShadow = true;
+        light.shadow.mapSize.width = config.shadowResolution;
+        light.shadow.mapSize.height = config.shadowResolution;
+        light.shadow.camera.near = 0.1;
+        light.shadow.camera.far = config.distance + 5;
+      }
+
+      this.lights.push(light);
+      this.group.add(light);
+    }
+  }
+
+  /**
+   * Moves the pooled lights to the lamps nearest a point
+   * @param point The reference point (usually the camera position)
+   */
+  private assignLights(point: THREE.Vector3): void {
+    if (this.lights.length === 0) return;
+
+    const nearest = this.lampPositions
+      .map((position, index) => ({ index, distance: position.distanceToSquared(point) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, this.lights.length);
+
+    nearest.forEach(({ index }, i) => {
+      this.lights[i].position.copy(this.lampPositions[index]);
+    });
+
+    this.lastCameraPosition.copy(point);
+  }
+
+  /**
+   * Gives the real lights to the poles nearest the camera - call this in your animation loop
+   * @param camera The active camera
+   */
+  update(camera: THREE.Camera): void {
+    if (camera.position.distanceTo(this.lastCameraPosition) < REASSIGN_DISTANCE) {
+      return;
+    }
+    this.assignLights(camera.position);
+  }
+
+  /**
+   * Dims or brightens all street lights, e.g. to switch them off during the day
+   * @param level 0 (off) to 1 (configured intensity)
+   */
+  setLevel(level: number): void {
+    this.level = THREE.MathUtils.clamp(level, 0, 1);
+    this.lights.forEach((light) => {
+      light.intensity = this.config.intensity * this.level;
+    });
+    this.lampMaterial.emissiveIntensity = this.level;
+  }
+
+  getLevel(): number {
+    return this.level;
+  }
+
+  /**
+   * Applies a new configuration in place if only the light appearance
+   * (color, intensity, distance) changed
+   * @param config The new street light configuration
+   * @returns False if the change needs a new system (positions, budget or shadows)
+   */
+  updateConfig(config: StreetLightConfig): boolean {
+    const structural = (value: StreetLightConfig) =>
+      JSON.stringify({ ...value, color: 0, intensity: 0, distance: 0 });
+    if (structural(config) !== structural(this.config)) return false;
+
+    this.config = config;
+    this.lights.forEach((light) => {
+      light.color.setHex(config.color);
+      light.distance = config.distance;
+      light.shadow.camera.far = config.distance + 5;
+      light.shadow.camera.updateProjectionMatrix();
+    });
+    this.lampMaterial.color.setHex(config.color);
+    this.lampMaterial.emissive.setHex(config.color);
+    this.setLevel(this.level);
+    return true;
+  }
+
+  /**
+   * Gets the number of street lights
+   */
+  getCount(): number {
+    return this.positions.length;
+  }
+
+  /**
+   * Gets the number of poles that currently have a real light
+   */
+  getActiveLightCount(): number {
+    return this.lights.length;
+  }
+
+  /**
+   * Disposes shared geometry and materials
+   */
+  dispose(): void {
+    [this.poles, this.arms, this.lamps].forEach((mesh) => {
+      mesh.geometry.dispose();
+      mesh.dispose();
+    });
+    this.poleMaterial.dispose();
+    this.lampMaterial.dispose();
+    this.lights.forEach((light) => light.dispose());
+    this.group.removeFromParent();
+  }
+}
+
+/**
+ * Creates a street light system
+ * @param positions Pole positions and rotations
+ * @param config Street light configuration
+ * @returns A StreetLightSystem instance
+ */
+export const createStreetLightSystem = (
+  positions: LightPosition[],
+  config: StreetLightConfig
+): StreetLightSystem => {
+  return new StreetLightSystem(positions, config);
+};
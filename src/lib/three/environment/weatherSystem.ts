@@ -0,0 +1,388 @@
+import * as THREE from "three";
+import type { WeatherConfig, WeatherType } from "../types";
+
+/**
+ * Blendable weather parameters
+ */
+export interface WeatherState {
+  /** Share of the rain drops that are falling, 0-1 */
+  rain: number;
+  /** How wet ground and roads look, 0-1 */
+  wetness: number;
+  /** Factor applied to the fog density */
+  fog: number;
+}
+
+/**
+ * A material that gets darker and glossier when wet
+ */
+export interface WetSurface {
+  material: THREE.MeshStandardMaterial;
+  /** Add puddles through a roughness map (needs world-scaled UVs, like the road meshes) */
+  puddles?: boolean;
+}
+
+/** Target state of each weather type */
+export const WEATHER_PRESETS: Record<WeatherType, WeatherState> = {
+  clear: { rain: 0, wetness: 0, fog: 1 },
+  rain: { rain: 0.6, wetness: 1, fog: 1.8 },
+  storm: { rain: 1, wetness: 1, fog: 2.5 },
+  fog: { rain: 0, wetness: 0.3, fog: 4 },
+};
+
+/** Default number of rain streaks at full intensity */
+const DEFAULT_MAX_RAIN_DROPS = 8000;
+/** Default side length of the rain volume around the camera */
+const DEFAULT_RAIN_AREA = 60;
+/** Default duration of weather transitions in seconds */
+const DEFAULT_TRANSITION_SECONDS = 5;
+/** Height of the rain volume above the ground */
+const RAIN_HEIGHT = 40;
+/** Length and width of a rain streak in meters */
+const STREAK_LENGTH = 0.7;
+const STREAK_WIDTH = 0.02;
+/** Roughness of a fully wet surface (puddles are rougher times the puddle map) */
+const WET_ROUGHNESS = 0.3;
+/** Color factor of a fully wet surface */
+const WET_DARKENING = 0.6;
+
+const rainVertexShader = /* glsl */ `
+  uniform float uTime;
+  uniform vec3 uCenter;
+  uniform float uArea;
+  uniform float uHeight;
+  uniform float uLength;
+  uniform float uWidth;
+  uniform float uWind;
+  attribute vec3 aOffset;
+  attribute float aSpeed;
+  varying float vAlong;
+
+  void main() {
+    // Drops are fixed in the world and wrap around the camera
+    vec3 drop = vec3(
+      uCenter.x + mod(aOffset.x - uCenter.x, uArea) - uArea * 0.5,
+      mod(aOffset.y - uTime * aSpeed, uHeight),
+      uCenter.z + mod(aOffset.z - uCenter.z, uArea) - uArea * 0.5
+    );
+
+    // Thin quad along the fall direction, turned towards the camera
+    vec3 toCamera = cameraPosition - drop;
+    vec3 right = normalize(vec3(toCamera.z, 0.0, -toCamera.x));
+    vec3 world = drop
+      + right * position.x * uWidth
+      + vec3(uWind, 1.0, 0.0) * position.y * uLength;
+
+    vAlong = position.y;
+    gl_Position = projectionMatrix * viewMatrix * vec4(world, 1.0);
+  }
+`;
+
+const rainFragmentShader = /* glsl */ `
+  uniform vec3 uColor;
+  uniform float uOpacity;
+  varying float vAlong;
+
+  void main() {
+    // Bright head, fading tail
+    gl_FragColor = vec4(uColor, uOpacity * (1.0 - vAlong));
+  }
+`;
+
+/**
+ * Creates a tiling roughness map with dark (glossy) puddle blobs
+ * @param size Texture size in pixels
+ * @returns The puddle texture
+ */
+const createPuddleTexture = (size = 128): THREE.DataTexture => {
+  const data = new Uint8Array(size * size * 4);
+
+  // Fixed pseudo random puddles so every run looks the same
+  let seed = 1337;
+  const random = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+  const puddles = Array.from({ length: 7 }, () => ({
+    x: random() * size,
+    y: random() * size,
+    radius: size * (0.06 + random() * 0.12),
+  }));
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let wet = 0;
+      puddles.forEach((puddle) => {
+        // Wrapped distance keeps the texture seamless
+        const dx = Math.min(Math.abs(x - puddle.x), size - Math.abs(x - puddle.x));
+        const dy = Math.min(Math.abs(y - puddle.y), size - Math.abs(y - puddle.y));
+        const distance = Math.hypot(dx, dy) / puddle.radius;
+        wet = Math.max(wet, THREE.MathUtils.smoothstep(1 - distance, 0, 0.3));
+      });
+
+      const roughness = Math.round(255 * (1 - wet * 0.85));
+      const index = (y * size + x) * 4;
+      data[index] = roughness;
+      data[index + 1] = roughness; // Roughness is read from the green channel
+      data[index + 2] = roughness;
+      data[index + 3] = 255;
+    }
+  }
+
+  const texture = new THREE.DataTexture(data, size, size);
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  texture.needsUpdate = true;
+  return texture;
+};
+
+/**
+ * Rain, wet surfaces and fog changes for the city environment.
+ *
+ * Rain is a single instanced quad animated entirely in the vertex shader, so
+ * the CPU cost doesn't depend on the number of drops. Weather changes blend
+ * the current state into the preset of the new weather type over a few
+ * seconds; call update() every frame.
+ */
+export class WeatherSystem {
+  private scene: THREE.Scene;
+  private config: WeatherConfig;
+  private type: WeatherType;
+  private state: WeatherState;
+  private transitionFrom: WeatherState;
+  private transitionTo: WeatherState;
+  private transitionDuration = 0;
+  private transitionElapsed = 0;
+  private maxDrops: number;
+  private rain: THREE.Mesh<THREE.InstancedBufferGeometry, THREE.ShaderMaterial>;
+  private surfaces: WetSurface[] = [];
+  private puddleTexture: THREE.DataTexture;
+  private time = 0;
+
+  /**
+   * Creates the weather system and adds the rain to the scene
+   * @param scene The Three.js scene
+   * @param config Weather configuration
+   */
+  constructor(scene: THREE.Scene, config: WeatherConfig) {
+    this.scene = scene;
+    this.config = config;
+    this.type = config.type;
+    this.state = { ...WEATHER_PRESETS[config.type] };
+    this.transitionFrom = { ...this.state };
+    this.transitionTo = { ...this.state };
+    this.maxDrops = config.maxRainDrops ?? DEFAULT_MAX_RAIN_DROPS;
+
+    this.rain = this.createRain();
+    this.scene.add(this.rain);
+    this.puddleTexture = createPuddleTexture();
+    this.applyState();
+  }
+
+  /**
+   * Creates the instanced rain streaks
+   */
+  private createRain(): THREE.Mesh<THREE.InstancedBufferGeometry, THREE.ShaderMaterial> {
+    const area = this.config.rainArea ?? DEFAULT_RAIN_AREA;
+
+    // Unit quad from the drop position (y = 0) up along the streak (y = 1)
+    const quad = new THREE.PlaneGeometry(1, 1);
+    quad.translate(0, 0.5, 0);
+
+    const geometry = new THREE.InstancedBufferGeometry();
+    geometry.index = quad.index;
+    geometry.setAttribute("position", quad.getAttribute("position"));
+
+    const offsets = new Float32Array(this.maxDrops * 3);
+    const speeds = new Float32Array(this.maxDrops);
+    for (let i = 0; i < this.maxDrops; i++) {
+      offsets[i * 3] = Math.random() * area;
+      offsets[i * 3 + 1] = Math.random() * RAIN_HEIGHT;
+      offsets[i * 3 + 2] = Math.random() * area;
+      speeds[i] = 14 + Math.random() * 6; // Raindrops fall at roughly 9-20 m/s
+    }
+    geometry.setAttribute("aOffset", new THREE.InstancedBufferAttribute(offsets, 3));
+    geometry.setAttribute("aSpeed", new THREE.InstancedBufferAttribute(speeds, 1));
+    geometry.instanceCount = 0;
+
+    const material = new THREE.ShaderMaterial({
+      uniforms: {
+        uTime: { value: 0 },
+        uCenter: { value: new THREE.Vector3() },
+        uArea: { value: area },
+        uHeight: { value: RAIN_HEIGHT },
+        uLength: { value: STREAK_LENGTH },
+        uWidth: { value: STREAK_WIDTH },
+        uWind: { value: 0.05 },
+        uColor: { value: new THREE.Color(0x9fb8d0) },
+        uOpacity: { value: 0.35 },
+      },
+      vertexShader: rainVertexShader,
+      fragmentShader: rainFragmentShader,
+      transparent: true,
+      depthWrite: false,
+      side: THREE.DoubleSide,
+    });
+
+    const rain = new THREE.Mesh(geometry, material);
+    rain.name = "rain";
+    rain.frustumCulled = false; // Positions are computed in the shader
+    return rain;
+  }
+
+  /**
+   * Registers materials that react to wetness. Their current look is stored as the dry state.
+   * @param surfaces The surfaces (replaces previously registered ones)
+   */
+  setWetSurfaces(surfaces: WetSurface[]): void {
+    this.resetSurfaces();
+    this.surfaces = surfaces;
+    surfaces.forEach(({ material }) => {
+      material.userData.dryRoughness = material.roughness;
+      material.userData.dryColor = material.color.clone();
+    });
+    this.applyState();
+  }
+
+  /**
+   * Restores the dry look of all registered surfaces
+   */
+  private resetSurfaces(): void {
+    this.surfaces.forEach(({ material }) => {
+      if (material.userData.dryColor) {
+        material.color.copy(material.userData.dryColor);
+        material.roughness = material.userData.dryRoughness;
+      }
+      if (material.roughnessMap === this.puddleTexture) {
+        material.roughnessMap = null;
+        material.needsUpdate = true;
+      }
+    });
+  }
+
+  getWeather(): WeatherType {
+    return this.type;
+  }
+
+  /**
+   * Gets the current (possibly mid-transition) weather parameters
+   */
+  getState(): WeatherState {
+    return { ...this.state };
+  }
+
+  /**
+   * Factor to apply to the base fog density
+   */
+  getFogMultiplier(): number {
+    return this.state.fog;
+  }
+
+  /**
+   * Changes the weather, blending from the current state
+   * @param type The new weather type
+   * @param transitionSeconds Blend duration (default from config, 0 switches instantly)
+   */
+  setWeather(type: WeatherType, transitionSeconds?: number): void {
+    this.type = type;
+    this.transitionFrom = { ...this.state };
+    this.transitionTo = { ...WEATHER_PRESETS[type] };
+    this.transitionDuration =
+      transitionSeconds ??
+      this.config.transitionSeconds ??
+      DEFAULT_TRANSITION_SECONDS;
+    this.transitionElapsed = 0;
+
+    if (this.transitionDuration <= 0) {
+      this.state = { ...this.transitionTo };
+      this.applyState();
+    }
+  }
+
+  /**
+   * Animates rain and weather transitions - call this in your animation loop
+   * @param camera The active camera (rain follows it)
+   * @param deltaSeconds Time since the last frame
+   */
+  update(camera: THREE.Camera, deltaSeconds: number): void {
+    this.time += deltaSeconds;
+
+    if (this.transitionElapsed < this.transitionDuration) {
+      this.transitionElapsed = Math.min(
+        this.transitionDuration,
+        this.transitionElapsed + deltaSeconds
+      );
+      const t = THREE.MathUtils.smootherstep(
+        this.transitionElapsed / this.transitionDuration,
+        0,
+        1
+      );
+      const lerp = (key: keyof WeatherState) =>
+        THREE.MathUtils.lerp(this.transitionFrom[key], this.transitionTo[key], t);
+      this.state = { rain: lerp("rain"), wetness: lerp("wetness"), fog: lerp("fog") };
+      this.applyState();
+    }
+
+    if (this.rain.visible) {
+      const uniforms = this.rain.material.uniforms;
+      uniforms.uTime.value = this.time;
+      uniforms.uCenter.value.set(camera.position.x, 0, camera.position.z);
+    }
+  }
+
+  /**
+   * Applies the current state to the rain and the wet surfaces
+   */
+  private applyState(): void {
+    const drops = Math.round(this.state.rain * this.maxDrops);
+    this.rain.geometry.instanceCount = drops;
+    this.rain.visible = drops > 0;
+
+    const wetness = this.state.wetness;
+    this.surfaces.forEach(({ material, puddles }) => {
+      const dryColor = material.userData.dryColor as THREE.Color | undefined;
+      if (!dryColor) return;
+
+      material.color.copy(dryColor).multiplyScalar(1 - (1 - WET_DARKENING) * wetness);
+      material.roughness = THREE.MathUtils.lerp(
+        material.userData.dryRoughness,
+        WET_ROUGHNESS,
+        wetness
+      );
+
+      // Puddles only appear on wet ground; switching the map recompiles the material
+      if (puddles) {
+        const roughnessMap = wetness > 0.05 ? this.puddleTexture : null;
+        if (material.roughnessMap !== roughnessMap) {
+          material.roughnessMap = roughnessMap;
+          material.needsUpdate = true;
+        }
+      }
+    });
+  }
+
+  /**
+   * Removes the rain, restores dry surfaces and frees GPU resources
+   */
+  dispose(): void {
+    this.resetSurfaces();
+    this.surfaces = [];
+    this.scene.remove(this.rain);
+    this.rain.geometry.dispose();
+    this.rain.material.dispose();
+    this.puddleTexture.dispose();
+  }
+}
+
+/**
+ * Creates a weather system
+ * @param scene The Three.js scene
+ * @param config Weather configuration
+ * @returns A WeatherSystem instance
+ */
+export const createWeatherSystem = (
+  scene: THREE.Scene,
+  config: WeatherConfig
+): WeatherSystem => {
+  return new WeatherSystem(scene, config);
+};
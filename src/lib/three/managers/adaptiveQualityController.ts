@@ -0,0 +1,442 @@
+import * as THREE from "three";
+import type { CityBuilder } from "../builders/cityBuilder";
+import type { CityEnvironment } from "../environment/cityEnvironment";
+import { DEFAULT_MAX_SHADOW_LIGHTS } from "../environment/streetLightSystem";
+import { qualityConfigs } from "../config/qualityPresets";
+import type {
+  EnvironmentConfigPatch,
+  TextureOptimizationConfig,
+} from "../types";
+import type { PerformanceMonitor } from "./performanceMonitor";
+
+/**
+ * The settings the adaptive controller can lower
+ */
+export interface AdaptiveQualitySettings {
+  /** Renderer pixel ratio */
+  pixelRatio: number;
+  /** Shadow map size of the directional light */
+  shadowResolution: number;
+  /** Street lights that cast shadows */
+  streetLightShadows: number;
+  fog: boolean;
+  textureOptimization?: TextureOptimizationConfig;
+}
+
+/**
+ * One rung of the quality ladder
+ */
+interface AdaptiveQualityStep {
+  name: string;
+  /** Returns the settings this step lowers, given the settings above it */
+  apply: (settings: AdaptiveQualitySettings) => Partial<AdaptiveQualitySettings>;
+}
+
+/**
+ * A change made by the controller
+ */
+export interface AdaptiveQualityEvent {
+  /** Seconds since the controller was created */
+  time: number;
+  direction: "down" | "up" | "reset";
+  /** Number of steps below full quality after the change */
+  level: number;
+  /** Names of the steps taken */
+  steps: string[];
+  /** Rolling frame rate that triggered the change */
+  fps: number;
+  /** Settings that changed, e.g. "shadowResolution: 2048 -> 1024" */
+  changes: string[];
+}
+
+/**
+ * Adaptive quality options
+ */
+export interface AdaptiveQualityOptions {
+  /** Frame rate to hold (default: 50) */
+  targetFps?: number;
+  /** Seconds below the target before stepping down (default: 2) */
+  downgradeDelay?: number;
+  /** Frames per second above the target needed to step back up (default: 10) */
+  upgradeMargin?: number;
+  /** Seconds above target + margin before stepping up (default: 8) */
+  upgradeDelay?: number;
+  /** Seconds after a change during which the frame rate is ignored (default: 2) */
+  settleTime?: number;
+  /** Maximum number of events kept in the log (default: 100) */
+  maxLogEntries?: number;
+  /** Called after every change */
+  onChange?: (event: AdaptiveQualityEvent) => void;
+}
+
+/**
+ * Objects the controller reads from and adjusts
+ */
+export interface AdaptiveQualityTarget {
+  renderer: THREE.WebGLRenderer;
+  cityBuilder: CityBuilder;
+  environment: CityEnvironment;
+  /** Must be updated every frame, e.g. by the performance test */
+  monitor: PerformanceMonitor;
+}
+
+/** Smallest directional shadow map the controller steps down to */
+const MIN_SHADOW_RESOLUTION = 512;
+/** Longest wait before retrying an upgrade that was reverted */
+const MAX_UPGRADE_DELAY = 60;
+
+/**
+ * Quality ladder, cheapest visual loss first. Steps that don't change
+ * anything for the current settings are skipped.
+ */
+const QUALITY_STEPS: AdaptiveQualityStep[] = [
+  {
+    name: "pixel ratio 1",
+    apply: (settings) => ({ pixelRatio: Math.min(settings.pixelRatio, 1) }),
+  },
+  {
+    name: "half shadow map size",
+    apply: (settings) => ({
+      shadowResolution: Math.max(MIN_SHADOW_RESOLUTION, settings.shadowResolution / 2),
+    }),
+  },
+  {
+    name: "street light shadows off",
+    apply: () => ({ streetLightShadows: 0 }),
+  },
+  {
+    name: "half shadow map size",
+    apply: (settings) => ({
+      shadowResolution: Math.max(MIN_SHADOW_RESOLUTION, settings.shadowResolution / 2),
+    }),
+  },
+  {
+    name: "fog off",
+    apply: () => ({ fog: false }),
+  },
+  {
+    name: "optional texture maps off",
+    apply: () => ({ textureOptimization: qualityConfigs.low.textureOptimization }),
+  },
+  {
+    name: "pixel ratio 0.75",
+    apply: (settings) => ({ pixelRatio: Math.min(settings.pixelRatio, 0.75) }),
+  },
+];
+
+/**
+ * Steps rendering quality down when the frame rate stays below a target
+ * and back up when there is headroom.
+ *
+ * Hysteresis keeps it from flickering between levels: stepping up needs a
+ * margin above the target for longer than stepping down needs a drop below
+ * it, the frame rate is ignored while a change settles, and an upgrade that
+ * has to be reverted doubles the wait before the next one.
+ */
+export class AdaptiveQualityController {
+  private target: AdaptiveQualityTarget;
+  private options: Required<Omit<AdaptiveQualityOptions, "onChange">> &
+    Pick<AdaptiveQualityOptions, "onChange">;
+  private initialPixelRatio: number;
+  private base: AdaptiveQualitySettings;
+  private current: AdaptiveQualitySettings;
+  private level = 0;
+  private elapsed = 0;
+  private settleUntil = 0;
+  private belowTime = 0;
+  private aboveTime = 0;
+  private upgradeDelay: number;
+  private lastUpgradeTime = -Infinity;
+  private busy = false;
+  private enabled = true;
+  private disposed = false;
+  private events: AdaptiveQualityEvent[] = [];
+
+  /**
+   * Creates an adaptive quality controller starting from the current settings
+   * @param target Renderer, city and monitor to work with
+   * @param options Controller options
+   */
+  constructor(target: AdaptiveQualityTarget, options: AdaptiveQualityOptions = {}) {
+    this.target = target;
+    this.options = {
+      targetFps: options.targetFps ?? 50,
+      downgradeDelay: options.downgradeDelay ?? 2,
+      upgradeMargin: options.upgradeMargin ?? 10,
+      upgradeDelay: options.upgradeDelay ?? 8,
+      settleTime: options.settleTime ?? 2,
+      maxLogEntries: options.maxLogEntries ?? 100,
+      onChange: options.onChange,
+    };
+    this.upgradeDelay = this.options.upgradeDelay;
+    this.initialPixelRatio = target.renderer.getPixelRatio();
+    this.base = this.captureSettings();
+    this.current = this.base;
+  }
+
+  /**
+   * Reads the current settings from the renderer and the configuration
+   */
+  private captureSettings(): AdaptiveQualitySettings {
+    const { environment, cityBuilder } = this.target;
+    const config = environment.getConfig();
+
+    return {
+      pixelRatio: this.initialPixelRatio,
+      shadowResolution: config.lighting.directional.shadowResolution,
+      streetLightShadows:
+        config.streetLights.maxShadowLights ?? DEFAULT_MAX_SHADOW_LIGHTS,
+      fog: config.lighting.fog.enabled,
+      textureOptimization: cityBuilder.getConfig()?.textureOptimization,
+    };
+  }
+
+  /**
+   * Computes the settings a number of steps below full quality
+   */
+  private settingsAt(level: number): AdaptiveQualitySettings {
+    return QUALITY_STEPS.slice(0, level).reduce(
+      (settings, step) => ({ ...settings, ...step.apply(settings) }),
+      this.base
+    );
+  }
+
+  /**
+   * Evaluates the frame rate and changes quality if needed - call this in your animation loop
+   * @param deltaSeconds Time since the last frame
+   */
+  update(deltaSeconds: number): void {
+    this.elapsed += deltaSeconds;
+    if (!this.enabled || this.busy) return;
+
+    // Frames rendered right after a change (shader compiles) don't count
+    if (this.elapsed < this.settleUntil) return;
+
+    const fps = this.target.monitor.getRollingFps();
+    if (fps <= 0) return;
+
+    const { targetFps, upgradeMargin, downgradeDelay } = this.options;
+    if (fps < targetFps) {
+      this.aboveTime = 0;
+      this.belowTime += deltaSeconds;
+      if (this.belowTime >= downgradeDelay) {
+        void this.step("down", fps);
+      }
+    } else if (fps > targetFps + upgradeMargin) {
+      this.belowTime = 0;
+      this.aboveTime += deltaSeconds;
+      if (this.aboveTime >= this.upgradeDelay) {
+        void this.step("up", fps);
+      }
+    } else {
+      this.belowTime = 0;
+      this.aboveTime = 0;
+    }
+  }
+
+  /**
+   * Moves one or more steps along the ladder until a setting actually changes
+   */
+  private async step(direction: "down" | "up", fps: number): Promise<void> {
+    this.belowTime = 0;
+    this.aboveTime = 0;
+
+    let level = this.level;
+    let settings = this.current;
+    const steps: string[] = [];
+    const limit = direction === "down" ? QUALITY_STEPS.length : 0;
+    while (level !== limit) {
+      if (direction === "down") {
+        steps.push(QUALITY_STEPS[level].name);
+        level++;
+      } else {
+        level--;
+        steps.push(QUALITY_STEPS[level].name);
+      }
+      settings = this.settingsAt(level);
+      if (this.describeChanges(this.current, settings).length > 0) break;
+    }
+
+    const changes = this.describeChanges(this.current, settings);
+    if (changes.length === 0) return;
+
+    // Back off if the last upgrade couldn't be held
+    if (
+      direction === "down" &&
+      this.elapsed - this.lastUpgradeTime < this.upgradeDelay + this.options.settleTime
+    ) {
+      this.upgradeDelay = Math.min(this.upgradeDelay * 2, MAX_UPGRADE_DELAY);
+    }
+    if (direction === "up") {
+      this.lastUpgradeTime = this.elapsed;
+    }
+
+    await this.applySettings(settings);
+    if (this.disposed) return;
+    this.level = level;
+    this.log({ time: this.elapsed, direction, level, steps, fps, changes });
+  }
+
+  /**
+   * Lists the settings that differ between two states
+   */
+  private describeChanges(
+    from: AdaptiveQualitySettings,
+    to: AdaptiveQualitySettings
+  ): string[] {
+    const format = (value: unknown) =>
+      value === undefined
+        ? "none"
+        : typeof value === "object" && value !== null
+        ? `${(value as TextureOptimizationConfig).maxTextureUnits} texture units`
+        : String(value);
+
+    return (Object.keys(to) as (keyof AdaptiveQualitySettings)[])
+      .filter((key) => JSON.stringify(from[key]) !== JSON.stringify(to[key]))
+      .map((key) => `${key}: ${format(from[key])} -> ${format(to[key])}`);
+  }
+
+  /**
+   * Applies settings to the renderer, environment and buildings
+   */
+  private async applySettings(settings: AdaptiveQualitySettings): Promise<void> {
+    const { renderer, environment, cityBuilder } = this.target;
+    const previous = this.current;
+    this.current = settings;
+    this.busy = true;
+
+    try {
+      if (settings.pixelRatio !== previous.pixelRatio) {
+        renderer.setPixelRatio(settings.pixelRatio);
+      }
+
+      const patch: EnvironmentConfigPatch = {};
+      if (settings.shadowResolution !== previous.shadowResolution) {
+        patch.lighting = { directional: { shadowResolution: settings.shadowResolution } };
+      }
+      if (settings.fog !== previous.fog) {
+        patch.lighting = { ...patch.lighting, fog: { enabled: settings.fog } };
+      }
+      if (settings.streetLightShadows !== previous.streetLightShadows) {
+        patch.streetLights = { maxShadowLights: settings.streetLightShadows };
+      }
+      if (Object.keys(patch).length > 0) {
+        const environmentConfig = environment.applyConfig(patch);
+        const config = cityBuilder.getConfig();
+        if (config) {
+          config.environment = environmentConfig;
+        }
+      }
+
+      if (
+        JSON.stringify(settings.textureOptimization) !==
+        JSON.stringify(previous.textureOptimization)
+      ) {
+        await cityBuilder.setTextureOptimization(settings.textureOptimization);
+      }
+    } finally {
+      this.busy = false;
+      this.settleUntil = this.elapsed + this.options.settleTime;
+    }
+  }
+
+  /**
+   * Adds an event to the log and notifies the listener
+   */
+  private log(event: AdaptiveQualityEvent): void {
+    this.events.push(event);
+    if (this.events.length > this.options.maxLogEntries) {
+      this.events.shift();
+    }
+
+    console.log(
+      `Adaptive quality ${event.direction} to level ${event.level} at ${event.fps.toFixed(1)} fps: ${event.changes.join(", ")}`
+    );
+    this.options.onChange?.(event);
+  }
+
+  /**
+   * Starts over from the current configuration, e.g. after switching quality
+   * presets. The pixel ratio is restored; everything else is taken as it is now.
+   */
+  reset(): void {
+    if (this.target.renderer.getPixelRatio() !== this.initialPixelRatio) {
+      this.target.renderer.setPixelRatio(this.initialPixelRatio);
+    }
+
+    const changes = this.describeChanges(this.current, this.captureSettings());
+    this.base = this.captureSettings();
+    this.current = this.base;
+    this.level = 0;
+    this.belowTime = 0;
+    this.aboveTime = 0;
+    this.upgradeDelay = this.options.upgradeDelay;
+    this.settleUntil = this.elapsed + this.options.settleTime;
+    this.log({
+      time: this.elapsed,
+      direction: "reset",
+      level: 0,
+      steps: [],
+      fps: this.target.monitor.getRollingFps(),
+      changes,
+    });
+  }
+
+  /**
+   * Pauses or resumes the controller (settings stay where they are)
+   * @param enabled Whether the controller should react to the frame rate
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled && !this.disposed;
+    this.belowTime = 0;
+    this.aboveTime = 0;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Gets the number of steps below full quality
+   */
+  getLevel(): number {
+    return this.level;
+  }
+
+  /**
+   * Gets the settings currently applied by the controller
+   */
+  getSettings(): AdaptiveQualitySettings {
+    return { ...this.current };
+  }
+
+  /**
+   * Gets every change the controller made, oldest first
+   */
+  getEventLog(): AdaptiveQualityEvent[] {
+    return [...this.events];
+  }
+
+  /**
+   * Stops the controller for good; a change in progress finishes without
+   * being logged
+   */
+  dispose(): void {
+    this.disposed = true;
+    this.enabled = false;
+    this.events = [];
+  }
+}
+
+/**
+ * Creates an adaptive quality controller
+ * @param target Renderer, city and monitor to work with
+ * @param options Controller options
+ * @returns An AdaptiveQualityController instance
+ */
+export const createAdaptiveQualityController = (
+  target: AdaptiveQualityTarget,
+  options?: AdaptiveQualityOptions
+): AdaptiveQualityController => {
+  return new AdaptiveQualityController(target, options);
+};
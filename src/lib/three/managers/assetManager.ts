@@ -534,6 +534,18 @@ export class AssetManager {
     }
   }
 
+  /**
+   * Gets the size of a loaded model as authored, in its own units
+   * @param modelPath Path of a model loaded earlier
+   * @returns The size [x, y, z] or null if the model isn't loaded
+   */
+  getModelSize(modelPath: string): THREE.Vector3 | null {
+    const model = this.modelCache.get(modelPath);
+    if (!model) return null;
+
+    return new THREE.Box3().setFromObject(model).getSize(new THREE.Vector3());
+  }
+
   /**
    * Clears all cached models and textures from memory
    */
@@ -16,8 +16,18 @@ export interface PerformanceMetrics {
   geometries: number;
   meshes: number;
   lights: number;
+  /** Number of buildings showing each LOD level (index 0 is full detail) */
+  lodLevels: number[];
 }
 
+/**
+ * Formats building counts per LOD level, e.g. "12 / 3 / 1"
+ * @param lodLevels Building count per level
+ * @returns The formatted counts
+ */
+const formatLodLevels = (lodLevels: number[]): string =>
+  lodLevels.length > 0 ? lodLevels.join(" / ") : "-";
+
 /**
  * Performance Monitor options
  */
@@ -36,6 +46,8 @@ export interface PerformanceMonitorOptions {
   trackRendererStats?: boolean;
   /** Track memory usage (only works in Chrome) */
   trackMemory?: boolean;
+  /** Length (in seconds) of the window for getRollingFps/getRollingFrameTime */
+  rollingWindow?: number;
   /** Custom callback for performance metrics */
   onMetricsUpdated?: (metrics: PerformanceMetrics) => void;
 }
@@ -79,6 +91,8 @@ export class PerformanceMonitor {
   private startTime = 0;
   private lastFrameTime = 0;
   private metricsHistory: PerformanceMetrics[] = [];
+  private frameDeltas: number[] = [];
+  private frameDeltaTotal = 0;
   private rendererInfo: any = null;
   private enabled = true;
 
@@ -102,6 +116,7 @@ export class PerformanceMonitor {
       logInterval: options.logInterval ?? 5,
       trackRendererStats: options.trackRendererStats ?? true,
       trackMemory: options.trackMemory ?? true,
+      rollingWindow: options.rollingWindow ?? 1,
       onMetricsUpdated: options.onMetricsUpdated,
       statsPanelContainer: options.statsPanelContainer || document.body,
     };
@@ -168,6 +183,16 @@ export class PerformanceMonitor {
     this.frameCount++;
     this.totalFrameTime += deltaTime;
 
+    // Keep only the frames inside the rolling window
+    this.frameDeltas.push(deltaTime);
+    this.frameDeltaTotal += deltaTime;
+    while (
+      this.frameDeltas.length > 1 &&
+      this.frameDeltaTotal - this.frameDeltas[0] >= this.options.rollingWindow! * 1000
+    ) {
+      this.frameDeltaTotal -= this.frameDeltas.shift()!;
+    }
+
     // Track and log metrics if needed
     if (
       this.options.logToConsole &&
@@ -207,6 +232,7 @@ export class PerformanceMonitor {
       geometries: 0,
       meshes: 0,
       lights: 0,
+      lodLevels: [],
     };
 
     // Add renderer info if available
@@ -215,8 +241,10 @@ export class PerformanceMonitor {
       metrics.calls = this.rendererInfo.render?.calls || 0;
       metrics.textures = this.rendererInfo.memory?.textures || 0;
       metrics.geometries = this.rendererInfo.memory?.geometries || 0;
-      metrics.meshes = this.countSceneObjects().meshes;
-      metrics.lights = this.countSceneObjects().lights;
+      const counts = this.countSceneObjects();
+      metrics.meshes = counts.meshes;
+      metrics.lights = counts.lights;
+      metrics.lodLevels = counts.lodLevels;
       metrics.shaders = this.rendererInfo.programs?.length || 0;
     }
 
@@ -240,13 +268,39 @@ export class PerformanceMonitor {
     return metrics;
   }
 
+  /**
+   * Gets the frame rate over the rolling window (see the rollingWindow option).
+   * Unlike getMetrics this is cheap enough to call every frame.
+   * @returns Frames per second, or 0 before the first frame
+   */
+  getRollingFps(): number {
+    return this.frameDeltaTotal > 0
+      ? this.frameDeltas.length / (this.frameDeltaTotal / 1000)
+      : 0;
+  }
+
+  /**
+   * Gets the average frame time over the rolling window
+   * @returns Frame time in milliseconds, or 0 before the first frame
+   */
+  getRollingFrameTime(): number {
+    return this.frameDeltas.length > 0
+      ? this.frameDeltaTotal / this.frameDeltas.length
+      : 0;
+  }
+
   /**
    * Counts the objects in the scene by type
    * @returns Object count by type
    */
-  private countSceneObjects(): { meshes: number; lights: number } {
+  private countSceneObjects(): {
+    meshes: number;
+    lights: number;
+    lodLevels: number[];
+  } {
     let meshCount = 0;
     let lightCount = 0;
+    const lodLevels: number[] = [];
 
     this.scene.traverse((object) => {
       if (object instanceof THREE.Mesh) {
@@ -254,9 +308,16 @@ export class PerformanceMonitor {
       } else if (object instanceof THREE.Light) {
         lightCount++;
       }
+
+      // Buildings without LOD settings are always at full detail
+      if (object.userData.type === "building") {
+        const level = object instanceof THREE.LOD ? object.getCurrentLevel() : 0;
+        while (lodLevels.length <= level) lodLevels.push(0);
+        lodLevels[level]++;
+      }
     });
 
-    return { meshes: meshCount, lights: lightCount };
+    return { meshes: meshCount, lights: lightCount, lodLevels };
   }
 
   /**
@@ -281,6 +342,7 @@ export class PerformanceMonitor {
     console.log(`Meshes: ${metrics.meshes}`);
     console.log(`Lights: ${metrics.lights}`);
     console.log(`Shaders: ${metrics.shaders}`);
+    console.log(`Buildings per LOD level: ${formatLodLevels(metrics.lodLevels)}`);
     console.groupEnd();
   }
 
@@ -342,6 +404,9 @@ export class PerformanceMonitor {
     );
     panel.appendChild(createMetricElement("Meshes", metrics.meshes.toString()));
     panel.appendChild(createMetricElement("Lights", metrics.lights.toString()));
+    panel.appendChild(
+      createMetricElement("LOD Levels", formatLodLevels(metrics.lodLevels))
+    );
 
     container.appendChild(panel);
 
@@ -372,6 +437,8 @@ export class PerformanceMonitor {
         metrics.meshes.toString();
       (document.getElementById("perf-lights") as HTMLElement).textContent =
         metrics.lights.toString();
+      (document.getElementById("perf-lod-levels") as HTMLElement).textContent =
+        formatLodLevels(metrics.lodLevels);
 
       requestAnimationFrame(updatePanel);
     };
@@ -384,6 +451,10 @@ export class PerformanceMonitor {
    * @param enabled Whether the monitor should be enabled
    */
   setEnabled(enabled: boolean): void {
+    // Don't count the paused time as one long frame
+    if (enabled && !this.enabled) {
+      this.lastFrameTime = performance.now();
+    }
     this.enabled = enabled;
     if (this.stats) {
       this.stats.dom.style.display = enabled ? "block" : "none";
@@ -402,6 +473,8 @@ export class PerformanceMonitor {
       this.options.statsPanelContainer.removeChild(this.stats.dom);
     }
     this.metricsHistory = [];
+    this.frameDeltas = [];
+    this.frameDeltaTotal = 0;
   }
 }
 
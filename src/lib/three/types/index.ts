@@ -14,22 +14,119 @@ export interface BuildingTexture {
   intensity?: number; // For emissive maps
 }
 
+// Lower-detail model shown from a given camera distance
+export interface BuildingLodLevel {
+  modelPath: string;
+  distance: number; // Camera distance in meters at which this model takes over
+}
+
+// Level-of-detail configuration for a building
+export interface BuildingLodConfig {
+  levels?: BuildingLodLevel[]; // Lower-detail models, in any order
+  impostorDistance?: number; // Distance at which a box impostor takes over (omit for no impostor)
+  impostorColor?: number; // Default: color of the model's first material
+}
+
+// Lit window patterns of procedural buildings
+export type NeonPattern = "none" | "random" | "stripes" | "columns" | "checker";
+
+// Procedurally generated building, in meters, centered on the placement position
+export interface ProceduralBuildingSpec {
+  seed: number; // Same seed and settings, same building
+  width: number; // Footprint along X
+  depth: number; // Footprint along Z
+  floors: number;
+  floorHeight?: number; // Default: 3
+  setbacks?: number; // Tiers stepping back toward the top (default: 0)
+  setbackInset?: number; // Distance each tier steps back on every side (default: 2)
+  color?: number; // Facade color (default: picked from the seed)
+  windowColor?: number; // Color of lit windows and neon trim (default: picked from the seed)
+  litWindowRatio?: number; // 0-1, share of lit windows (default: 0.35)
+  neonPattern?: NeonPattern; // Default: "random"
+  rooftop?: boolean; // Rooftop clutter: AC units, stair housings, antennas (default: true)
+}
+
+// Zone types used by the city layout generator
+export type ZoneType = "downtown" | "residential" | "industrial";
+
+// Point of a model that is placed at its position; "base" and "center" refer
+// to its bounding box after scaling and rotation
+export type BuildingAnchor = "base" | "center" | "origin";
+
 // Building placement configuration
 export interface BuildingPlacement {
-  modelPath: string;
+  id: string; // Stable identifier, unique within a city
+  name?: string;
+  tags?: string[];
+  modelPath?: string; // Model to load; exactly one of modelPath and procedural is required
+  procedural?: ProceduralBuildingSpec; // Generate the building instead of loading a model
   position: [number, number, number];
   scale: [number, number, number];
   rotation: [number, number, number];
+  targetHeight?: number; // Meters; scales the model uniformly to this height, times `scale`
+  targetFootprint?: [number, number]; // Meters [width, depth] along the model's X and Z; scales it uniformly to fit, times `scale`
+  anchor?: BuildingAnchor; // Default: "origin" (as authored)
+  snapToGround?: boolean; // Rest the base on the ground, position[1] is the height above it (default: CityConfig.snapToGround)
   textures?: BuildingTexture[];
+  lod?: BuildingLodConfig; // Buildings with LOD are never instanced
 }
 
 // Light position configuration
 export interface LightPosition {
   x: number;
   z: number;
-  rotation: number;
+  rotation: number; // Y rotation in radians, the lamp arm points along +X at 0
+}
+
+// Road network node (graph layout)
+export interface RoadNodeConfig {
+  id: string;
+  x: number;
+  z: number;
+}
+
+// Road between two nodes (graph layout)
+export interface RoadEdgeConfig {
+  from: string;
+  to: string;
+  width?: number; // Defaults to the network width
+  lanes?: number; // Defaults to the network lane count
 }
 
+// Settings shared by all road network layouts
+interface RoadNetworkBaseConfig {
+  width: number; // Default road width in meters
+  lanes: number; // Default number of lanes
+  sidewalkWidth: number; // 0 disables sidewalks and curbs
+  curbHeight: number;
+  sidewalkColor?: number;
+  curbColor?: number;
+  markingColor?: number;
+  laneMarkings?: boolean;
+}
+
+// Regular grid of roads centered on the origin
+export interface GridRoadNetworkConfig extends RoadNetworkBaseConfig {
+  layout: "grid";
+  blockSize: number; // Distance between road centerlines
+  extent?: number; // Side length of the covered area (default: 90% of the ground size)
+  majorRoads?: {
+    every: number; // Every Nth grid line (counted from the center) is a major road
+    width: number;
+    lanes: number;
+  };
+}
+
+// Explicit graph of nodes and edges
+export interface GraphRoadNetworkConfig extends RoadNetworkBaseConfig {
+  layout: "graph";
+  nodes: RoadNodeConfig[];
+  edges: RoadEdgeConfig[];
+}
+
+// Road network configuration
+export type RoadNetworkConfig = GridRoadNetworkConfig | GraphRoadNetworkConfig;
+
 // Ground configuration
 export interface GroundConfig {
   enabled: boolean;
@@ -38,16 +135,32 @@ export interface GroundConfig {
   roughness: number;
   includeRoads: boolean;
   roadColor: number;
+  roads?: RoadNetworkConfig; // Defaults to a single crossing at the center
+}
+
+// Automatic street light placement along the road network
+export interface StreetLightAutoPlacementConfig {
+  spacing: number; // Distance between poles along a road
+  sideOffset: number; // Distance from the road edge to the pole
+  intersectionClearance: number; // Keep poles this far from intersection areas
+  buildingClearance: number; // Keep poles this far from building footprints
+  bothSides?: boolean; // Place poles on both sides of each road (default: true)
+  staggered?: boolean; // Offset the poles on opposite sides by half the spacing
+  maxDistanceFromCenter?: number; // Only place poles within this radius
 }
 
 // Street light configuration
 export interface StreetLightConfig {
   enabled: boolean;
+  placement?: "manual" | "auto"; // Default: manual (positions, or built-in defaults)
   positions?: LightPosition[];
+  autoPlacement?: StreetLightAutoPlacementConfig;
   intensity: number;
   distance: number;
   color: number;
   shadowResolution: number;
+  maxActiveLights?: number; // Poles nearest the camera that get a real PointLight (default: 8)
+  maxShadowLights?: number; // Active lights that also cast shadows (default: 2)
 }
 
 // Lighting configuration
@@ -76,6 +189,42 @@ export interface LightingConfig {
     color: number;
     density: number;
   };
+  timeOfDay?: TimeOfDayConfig;
+}
+
+// Lighting state at a given hour of the day
+export interface TimeOfDayKeyframe {
+  hour: number; // 0-24
+  sunColor: number;
+  sunIntensity: number;
+  ambientColor: number;
+  ambientIntensity: number;
+  fillColor: number;
+  fillIntensity: number;
+  fogColor: number;
+  fogDensity: number;
+  skyColor: number; // Scene background
+  cityLights: number; // 0-1, how strongly street lights and building emissive maps glow
+}
+
+// Day/night cycle configuration
+export interface TimeOfDayConfig {
+  enabled: boolean;
+  hours: number; // Initial time of day, 0-24
+  timeScale?: number; // Simulated hours per real second (default: 0, no animation)
+  keyframes?: TimeOfDayKeyframe[]; // Default: dawn, noon, dusk and night presets
+}
+
+// Weather types, from dry to the thickest atmosphere
+export type WeatherType = "clear" | "rain" | "storm" | "fog";
+
+// Weather configuration
+export interface WeatherConfig {
+  enabled: boolean;
+  type: WeatherType;
+  transitionSeconds?: number; // Duration of weather changes (default: 5)
+  maxRainDrops?: number; // Rain streaks at full intensity (default: 8000)
+  rainArea?: number; // Side length of the rain volume around the camera in meters (default: 60)
 }
 
 // Environment configuration
@@ -83,8 +232,19 @@ export interface EnvironmentConfig {
   ground: GroundConfig;
   streetLights: StreetLightConfig;
   lighting: LightingConfig;
+  weather?: WeatherConfig;
 }
 
+// Recursively optional version of a configuration (arrays and tuples are replaced as a whole)
+export type DeepPartial<T> = T extends readonly unknown[]
+  ? T
+  : T extends object
+  ? { [K in keyof T]?: DeepPartial<T[K]> }
+  : T;
+
+// Partial environment configuration for CityEnvironment.applyConfig
+export type EnvironmentConfigPatch = DeepPartial<EnvironmentConfig>;
+
 // Texture optimization configuration
 export interface TextureOptimizationConfig {
   enabled: boolean;
@@ -94,9 +254,52 @@ export interface TextureOptimizationConfig {
   disableTexturesWhenOverLimit: boolean;
 }
 
+// Building instancing configuration
+export interface InstancingConfig {
+  enabled: boolean;
+  minInstances?: number; // Placements sharing a model and textures needed to batch them (default: 2)
+}
+
+// Camera position, the point it looks at and optionally its field of view
+export interface CameraView {
+  position: [number, number, number];
+  target: [number, number, number];
+  fov?: number; // Vertical field of view in degrees (default: keep the camera's field of view)
+}
+
+// Named camera view that can be returned to
+export interface CameraBookmark extends CameraView {
+  id: string;
+  name?: string;
+}
+
+// Easing applied over the whole duration of a camera path
+export type CameraPathEasing = "linear" | "easeIn" | "easeOut" | "easeInOut";
+
+// Camera path keyframe: a view at a point in time
+export interface CameraKeyframe extends CameraView {
+  time: number; // Seconds from the start of the path
+}
+
+// Camera flythrough along a spline through its keyframes
+export interface CameraPathConfig {
+  id: string;
+  name?: string;
+  keyframes: CameraKeyframe[]; // At least two, in ascending time order
+  easing?: CameraPathEasing; // Default: "easeInOut"
+  loop?: boolean; // Default: false
+}
+
+// Rendering quality presets (performanceConfig, cityConfig, highQualityConfig)
+export type QualityLevel = "low" | "default" | "high";
+
 // City configuration
 export interface CityConfig {
   buildings: BuildingPlacement[];
   environment: EnvironmentConfig;
   textureOptimization?: TextureOptimizationConfig;
+  instancing?: InstancingConfig; // Default: enabled
+  snapToGround?: boolean; // Ground snapping for buildings without their own setting (default: false)
+  cameraPaths?: CameraPathConfig[];
+  cameraBookmarks?: CameraBookmark[];
 }
@@ -0,0 +1,297 @@
+import type { CityConfig } from "../types";
+import type { SerializedCommandHistory } from "../editor/commandHistory";
+import {
+  type ConfigValidationError,
+  formatValidationErrors,
+  validateCityConfig,
+} from "./configValidator";
+
+/**
+ * Current version of the city layout JSON format
+ */
+export const CITY_CONFIG_FORMAT_VERSION = 2;
+
+/**
+ * Versioned JSON document wrapping a city configuration.
+ *
+ * Colors are stored as "#rrggbb" strings so the files stay readable for
+ * designers; any property named `color` or ending in `Color` is converted
+ * back to a number when the document is loaded.
+ */
+export interface CityConfigDocument {
+  formatVersion: number;
+  /** Optional display name of the layout */
+  name?: string;
+  /** ISO timestamp of when the document was written */
+  savedAt?: string;
+  city: Record<string, unknown>;
+  /** Optional edit history, so undo/redo keeps working after a reload */
+  history?: Record<string, unknown>;
+}
+
+/**
+ * Optional metadata written alongside the city configuration
+ */
+export interface CityConfigDocumentMeta {
+  name?: string;
+  history?: SerializedCommandHistory;
+}
+
+/**
+ * Upgrades a document from one format version to the next
+ */
+type CityConfigMigration = (
+  document: Record<string, unknown>
+) => Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade FROM. A document at version
+ * N is passed through migrations[N], migrations[N + 1], ... until it reaches
+ * CITY_CONFIG_FORMAT_VERSION.
+ */
+const migrations: Record<number, CityConfigMigration> = {
+  // Version 0: a bare CityConfig dumped with JSON.stringify, no envelope
+  0: (document) => ({
+    formatVersion: 1,
+    city: document,
+  }),
+  // Version 1: buildings had no ids, assign them by position in the list
+  1: (document) => {
+    const city = document.city as Record<string, unknown> | undefined;
+    const buildings = Array.isArray(city?.buildings) ? city.buildings : null;
+
+    return {
+      ...document,
+      formatVersion: 2,
+      city: buildings
+        ? {
+            ...city,
+            buildings: buildings.map((building, index) =>
+              typeof building === "object" && building !== null && !("id" in building)
+                ? { id: `building-${index + 1}`, ...building }
+                : building
+            ),
+          }
+        : city,
+    };
+  },
+};
+
+/**
+ * Error thrown when a city layout document cannot be loaded
+ */
+export class CityConfigLoadError extends Error {
+  readonly errors: ConfigValidationError[];
+
+  constructor(message: string, errors: ConfigValidationError[] = []) {
+    super(errors.length > 0 ? `${message}\n${formatValidationErrors(errors)}` : message);
+    this.name = "CityConfigLoadError";
+    this.errors = errors;
+  }
+}
+
+const HEX_COLOR_PATTERN = /^#?([0-9a-f]{6})$/i;
+
+/**
+ * Returns true for property names that hold colors
+ */
+const isColorKey = (key: string): boolean => key === "color" || key.endsWith("Color");
+
+/**
+ * Recursively copies a JSON-like value, transforming color properties
+ * @param value The value to copy
+ * @param transformColor Conversion applied to values of color properties
+ * @returns The transformed copy
+ */
+const mapColors = (
+  value: unknown,
+  transformColor: (color: unknown) => unknown
+): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((item) => mapColors(item, transformColor));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        isColorKey(key) ? transformColor(item) : mapColors(item, transformColor),
+      ])
+    );
+  }
+  return value;
+};
+
+const encodeColor = (color: unknown): unknown =>
+  typeof color === "number" ? `#${color.toString(16).padStart(6, "0")}` : color;
+
+const decodeColor = (color: unknown): unknown => {
+  if (typeof color !== "string") return color;
+  const match = HEX_COLOR_PATTERN.exec(color);
+  return match ? parseInt(match[1], 16) : color;
+};
+
+/**
+ * Serializes a city configuration into a versioned document
+ * @param config The city configuration
+ * @param meta Optional document metadata
+ * @returns The document, ready for JSON.stringify
+ */
+export const serializeCityConfig = (
+  config: CityConfig,
+  meta: CityConfigDocumentMeta = {}
+): CityConfigDocument => ({
+  formatVersion: CITY_CONFIG_FORMAT_VERSION,
+  ...(meta.name !== undefined ? { name: meta.name } : {}),
+  savedAt: new Date().toISOString(),
+  city: mapColors(config, encodeColor) as Record<string, unknown>,
+  ...(meta.history
+    ? { history: mapColors(meta.history, encodeColor) as Record<string, unknown> }
+    : {}),
+});
+
+/**
+ * Serializes a city configuration to a JSON string
+ * @param config The city configuration
+ * @param meta Optional document metadata
+ * @returns Pretty-printed JSON
+ */
+export const stringifyCityConfig = (
+  config: CityConfig,
+  meta?: CityConfigDocumentMeta
+): string => JSON.stringify(serializeCityConfig(config, meta), null, 2);
+
+/**
+ * Upgrades a raw document to the current format version
+ * @param raw The parsed JSON value
+ * @returns The migrated document
+ * @throws CityConfigLoadError if the document is malformed or too new
+ */
+export const migrateCityConfigDocument = (raw: unknown): CityConfigDocument => {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new CityConfigLoadError("City layout document must be a JSON object");
+  }
+
+  let document = raw as Record<string, unknown>;
+  const declaredVersion = document.formatVersion ?? 0;
+
+  if (
+    typeof declaredVersion !== "number" ||
+    !Number.isInteger(declaredVersion) ||
+    declaredVersion < 0
+  ) {
+    throw new CityConfigLoadError(
+      `Invalid formatVersion ${JSON.stringify(declaredVersion)} in city layout document`
+    );
+  }
+
+  let version = declaredVersion;
+
+  if (version > CITY_CONFIG_FORMAT_VERSION) {
+    throw new CityConfigLoadError(
+      `City layout format version ${version} is newer than the supported version ${CITY_CONFIG_FORMAT_VERSION}`
+    );
+  }
+
+  while (version < CITY_CONFIG_FORMAT_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new CityConfigLoadError(
+        `No migration available from city layout format version ${version}`
+      );
+    }
+    document = migrate(document);
+    console.debug(
+      `Migrated city layout from format version ${version} to ${document.formatVersion}`
+    );
+    version = document.formatVersion as number;
+  }
+
+  return document as unknown as CityConfigDocument;
+};
+
+/**
+ * Deserializes and validates a city layout document
+ * @param raw The parsed JSON value (any supported format version)
+ * @returns The validated city configuration
+ * @throws CityConfigLoadError if the document is invalid
+ */
+export const deserializeCityConfig = (raw: unknown): CityConfig => {
+  const document = migrateCityConfigDocument(raw);
+  const config = mapColors(document.city, decodeColor);
+
+  const validation = validateCityConfig(config);
+  if (!validation.valid) {
+    throw new CityConfigLoadError(
+      `Invalid city layout (${validation.errors.length} errors)`,
+      validation.errors
+    );
+  }
+
+  return config as CityConfig;
+};
+
+/**
+ * Reads the edit history stored in a city layout document
+ * @param raw The parsed JSON value (any supported format version)
+ * @returns The serialized history or null if the document has none
+ * @throws CityConfigLoadError if the document is malformed
+ */
+export const deserializeCityConfigHistory = (
+  raw: unknown
+): SerializedCommandHistory | null => {
+  const document = migrateCityConfigDocument(raw);
+  if (!document.history) return null;
+
+  const history = mapColors(document.history, decodeColor) as Partial<SerializedCommandHistory>;
+  return {
+    undo: Array.isArray(history.undo) ? history.undo : [],
+    redo: Array.isArray(history.redo) ? history.redo : [],
+  };
+};
+
+/**
+ * Parses the JSON text of a city layout document
+ * @throws CityConfigLoadError if the text is not valid JSON
+ */
+const parseDocumentJson = (json: string): unknown => {
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    throw new CityConfigLoadError(`City layout is not valid JSON: ${error}`);
+  }
+};
+
+/**
+ * Parses a city layout from a JSON string
+ * @param json The JSON text
+ * @returns The validated city configuration
+ * @throws CityConfigLoadError if the JSON or the layout is invalid
+ */
+export const parseCityConfig = (json: string): CityConfig =>
+  deserializeCityConfig(parseDocumentJson(json));
+
+/**
+ * Fetches a city layout document without deserializing it, e.g. to read
+ * both its configuration and its edit history
+ * @param url URL of the JSON document
+ * @returns Promise resolving to the parsed JSON value
+ * @throws CityConfigLoadError if the request fails or the JSON is invalid
+ */
+export const fetchCityConfigDocument = async (url: string): Promise<unknown> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new CityConfigLoadError(
+      `Failed to fetch city layout ${url} (status: ${response.status})`
+    );
+  }
+  return parseDocumentJson(await response.text());
+};
+
+/**
+ * Fetches and deserializes a city layout from a URL
+ * @param url URL of the JSON document
+ * @returns Promise resolving to the validated city configuration
+ * @throws CityConfigLoadError if the request fails or the layout is invalid
+ */
+export const loadCityConfig = async (url: string): Promise<CityConfig> =>
+  deserializeCityConfig(await fetchCityConfigDocument(url));
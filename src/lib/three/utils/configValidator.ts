@@ -0,0 +1,945 @@
+import type {
+  BuildingAnchor,
+  BuildingTexture,
+  CameraPathEasing,
+  CityConfig,
+  NeonPattern,
+  RoadNetworkConfig,
+  WeatherType,
+} from "../types";
+
+/**
+ * A single validation problem found in a city configuration
+ */
+export interface ConfigValidationError {
+  /** JSON path to the offending value, e.g. `buildings[3].scale[1]` */
+  path: string;
+  /** Human readable description of the problem */
+  message: string;
+}
+
+/**
+ * Result of validating a city configuration
+ */
+export interface ConfigValidationResult {
+  valid: boolean;
+  errors: ConfigValidationError[];
+}
+
+/**
+ * Texture types supported by CityBuilder.applyTexturesToModel
+ */
+export const TEXTURE_TYPES: ReadonlyArray<BuildingTexture["type"]> = [
+  "map",
+  "normalMap",
+  "roughnessMap",
+  "metalnessMap",
+  "emissiveMap",
+  "aoMap",
+];
+
+/**
+ * Supported road network layouts
+ */
+export const ROAD_LAYOUTS: ReadonlyArray<RoadNetworkConfig["layout"]> = [
+  "grid",
+  "graph",
+];
+
+/**
+ * Supported weather types
+ */
+export const WEATHER_TYPES: ReadonlyArray<WeatherType> = [
+  "clear",
+  "rain",
+  "storm",
+  "fog",
+];
+
+/**
+ * Lit window patterns of procedural buildings
+ */
+export const NEON_PATTERNS: ReadonlyArray<NeonPattern> = [
+  "none",
+  "random",
+  "stripes",
+  "columns",
+  "checker",
+];
+
+/**
+ * Points of a model that can be placed at a building's position
+ */
+export const BUILDING_ANCHORS: ReadonlyArray<BuildingAnchor> = [
+  "base",
+  "center",
+  "origin",
+];
+
+/**
+ * Supported camera path easing curves
+ */
+export const CAMERA_PATH_EASINGS: ReadonlyArray<CameraPathEasing> = [
+  "linear",
+  "easeIn",
+  "easeOut",
+  "easeInOut",
+];
+
+/**
+ * Allowed range for FogExp2 density. Anything above the maximum fogs out
+ * the scene within a few meters and is almost certainly a typo.
+ */
+export const FOG_DENSITY_RANGE: [number, number] = [0, 0.1];
+
+interface NumberRule {
+  min?: number;
+  max?: number;
+  /** Require the value to be strictly greater than zero */
+  positive?: boolean;
+  integer?: boolean;
+}
+
+/**
+ * Collects errors while walking a configuration object
+ */
+class ValidationContext {
+  readonly errors: ConfigValidationError[] = [];
+
+  error(path: string, message: string): void {
+    this.errors.push({ path, message });
+  }
+
+  /**
+   * Reads a required object at the given path
+   * @returns The object, or null if it is missing or not an object
+   */
+  object(value: unknown, path: string): Record<string, unknown> | null {
+    if (!isPlainObject(value)) {
+      this.error(path, `expected an object, got ${describe(value)}`);
+      return null;
+    }
+    return value;
+  }
+
+  /**
+   * Reads a required array at the given path
+   * @returns The array, or null if it is missing or not an array
+   */
+  array(value: unknown, path: string): unknown[] | null {
+    if (!Array.isArray(value)) {
+      this.error(path, `expected an array, got ${describe(value)}`);
+      return null;
+    }
+    return value;
+  }
+
+  boolean(value: unknown, path: string): void {
+    if (typeof value !== "boolean") {
+      this.error(path, `expected a boolean, got ${describe(value)}`);
+    }
+  }
+
+  string(value: unknown, path: string): boolean {
+    if (typeof value !== "string" || value.trim() === "") {
+      this.error(path, `expected a non-empty string, got ${describe(value)}`);
+      return false;
+    }
+    return true;
+  }
+
+  number(value: unknown, path: string, rule: NumberRule = {}): boolean {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      this.error(path, `expected a finite number, got ${describe(value)}`);
+      return false;
+    }
+    if (rule.integer && !Number.isInteger(value)) {
+      this.error(path, `expected an integer, got ${value}`);
+      return false;
+    }
+    if (rule.positive && value <= 0) {
+      this.error(path, `expected a positive number, got ${value}`);
+      return false;
+    }
+    if (rule.min !== undefined && value < rule.min) {
+      this.error(path, `expected a number >= ${rule.min}, got ${value}`);
+      return false;
+    }
+    if (rule.max !== undefined && value > rule.max) {
+      this.error(path, `expected a number <= ${rule.max}, got ${value}`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Checks a fixed-length numeric tuple such as a position or scale
+   */
+  tuple(value: unknown, path: string, length: number, rule: NumberRule = {}): void {
+    if (!Array.isArray(value)) {
+      this.error(path, `expected an array of ${length} numbers, got ${describe(value)}`);
+      return;
+    }
+    if (value.length !== length) {
+      this.error(path, `expected exactly ${length} numbers, got ${value.length}`);
+    }
+    value
+      .slice(0, length)
+      .forEach((item, index) => this.number(item, `${path}[${index}]`, rule));
+  }
+
+  /**
+   * Checks a color stored as a 24-bit hex number (e.g. 0xff00ff)
+   */
+  color(value: unknown, path: string): void {
+    if (
+      typeof value !== "number" ||
+      !Number.isInteger(value) ||
+      value < 0 ||
+      value > 0xffffff
+    ) {
+      this.error(
+        path,
+        `expected a hex color between 0x000000 and 0xffffff, got ${describe(value)}`
+      );
+    }
+  }
+
+  /**
+   * Checks a value against a list of allowed strings
+   */
+  oneOf<T extends string>(value: unknown, path: string, allowed: ReadonlyArray<T>): void {
+    if (typeof value !== "string" || !allowed.includes(value as T)) {
+      this.error(
+        path,
+        `expected one of ${allowed.map((item) => `"${item}"`).join(", ")}, got ${describe(value)}`
+      );
+    }
+  }
+}
+
+/**
+ * Returns true for non-null, non-array objects
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Short description of a value for error messages
+ */
+const describe = (value: unknown): string => {
+  if (value === undefined) return "nothing";
+  if (value === null) return "null";
+  if (Array.isArray(value)) return `an array of length ${value.length}`;
+  if (typeof value === "string") return `"${value}"`;
+  if (typeof value === "object") return "an object";
+  return String(value);
+};
+
+/**
+ * Returns true if the shadow map resolution is a positive power of two
+ */
+const isPowerOfTwo = (value: number): boolean =>
+  Number.isInteger(value) && value > 0 && (value & (value - 1)) === 0;
+
+const validateShadowResolution = (
+  ctx: ValidationContext,
+  value: unknown,
+  path: string
+): void => {
+  if (ctx.number(value, path, { positive: true, integer: true }) && !isPowerOfTwo(value as number)) {
+    ctx.error(path, `expected a power of two, got ${value}`);
+  }
+};
+
+const validateTexture = (
+  ctx: ValidationContext,
+  value: unknown,
+  path: string
+): void => {
+  const texture = ctx.object(value, path);
+  if (!texture) return;
+
+  ctx.string(texture.texturePath, `${path}.texturePath`);
+  ctx.oneOf(texture.type, `${path}.type`, TEXTURE_TYPES);
+
+  if (texture.repeat !== undefined) {
+    ctx.tuple(texture.repeat, `${path}.repeat`, 2, { positive: true });
+  }
+  if (texture.offset !== undefined) {
+    ctx.tuple(texture.offset, `${path}.offset`, 2);
+  }
+  if (texture.rotation !== undefined) {
+    ctx.number(texture.rotation, `${path}.rotation`);
+  }
+  if (texture.intensity !== undefined) {
+    ctx.number(texture.intensity, `${path}.intensity`, { min: 0 });
+  }
+};
+
+const validateLod = (
+  ctx: ValidationContext,
+  value: unknown,
+  path: string
+): void => {
+  const lod = ctx.object(value, path);
+  if (!lod) return;
+
+  let farthestLevel = 0;
+  if (lod.levels !== undefined) {
+    const levels = ctx.array(lod.levels, `${path}.levels`);
+    levels?.forEach((item, index) => {
+      const levelPath = `${path}.levels[${index}]`;
+      const level = ctx.object(item, levelPath);
+      if (!level) return;
+
+      ctx.string(level.modelPath, `${levelPath}.modelPath`);
+      if (ctx.number(level.distance, `${levelPath}.distance`, { positive: true })) {
+        farthestLevel = Math.max(farthestLevel, level.distance as number);
+      }
+    });
+  }
+
+  if (lod.impostorDistance !== undefined) {
+    if (
+      ctx.number(lod.impostorDistance, `${path}.impostorDistance`, { positive: true }) &&
+      (lod.impostorDistance as number) <= farthestLevel
+    ) {
+      ctx.error(
+        `${path}.impostorDistance`,
+        `must be greater than the farthest level distance (${farthestLevel})`
+      );
+    }
+  }
+  if (lod.impostorColor !== undefined) {
+    ctx.color(lod.impostorColor, `${path}.impostorColor`);
+  }
+};
+
+const validateProcedural = (
+  ctx: ValidationContext,
+  value: unknown,
+  path: string
+): void => {
+  const spec = ctx.object(value, path);
+  if (!spec) return;
+
+  ctx.number(spec.seed, `${path}.seed`);
+  ctx.number(spec.width, `${path}.width`, { positive: true });
+  ctx.number(spec.depth, `${path}.depth`, { positive: true });
+  ctx.number(spec.floors, `${path}.floors`, { min: 1, integer: true });
+  if (spec.floorHeight !== undefined) {
+    ctx.number(spec.floorHeight, `${path}.floorHeight`, { positive: true });
+  }
+  if (spec.setbacks !== undefined) {
+    ctx.number(spec.setbacks, `${path}.setbacks`, { min: 0, integer: true });
+  }
+  if (spec.setbackInset !== undefined) {
+    ctx.number(spec.setbackInset, `${path}.setbackInset`, { min: 0 });
+  }
+  (["color", "windowColor"] as const).forEach((key) => {
+    if (spec[key] !== undefined) ctx.color(spec[key], `${path}.${key}`);
+  });
+  if (spec.litWindowRatio !== undefined) {
+    ctx.number(spec.litWindowRatio, `${path}.litWindowRatio`, { min: 0, max: 1 });
+  }
+  if (spec.neonPattern !== undefined) {
+    ctx.oneOf(spec.neonPattern, `${path}.neonPattern`, NEON_PATTERNS);
+  }
+  if (spec.rooftop !== undefined) {
+    ctx.boolean(spec.rooftop, `${path}.rooftop`);
+  }
+};
+
+const validateBuilding = (
+  ctx: ValidationContext,
+  value: unknown,
+  path: string
+): void => {
+  const building = ctx.object(value, path);
+  if (!building) return;
+
+  ctx.string(building.id, `${path}.id`);
+  if (building.name !== undefined) {
+    ctx.string(building.name, `${path}.name`);
+  }
+  if (building.tags !== undefined) {
+    const tags = ctx.array(building.tags, `${path}.tags`);
+    tags?.forEach((tag, index) => ctx.string(tag, `${path}.tags[${index}]`));
+  }
+
+  // A building is either loaded from a model or generated
+  if (building.modelPath !== undefined && building.procedural !== undefined) {
+    ctx.error(path, "expected either modelPath or procedural, not both");
+  } else if (building.procedural !== undefined) {
+    validateProcedural(ctx, building.procedural, `${path}.procedural`);
+  } else {
+    ctx.string(building.modelPath, `${path}.modelPath`);
+  }
+  ctx.tuple(building.position, `${path}.position`, 3);
+  ctx.tuple(building.scale, `${path}.scale`, 3, { positive: true });
+  ctx.tuple(building.rotation, `${path}.rotation`, 3);
+  if (building.targetHeight !== undefined) {
+    ctx.number(building.targetHeight, `${path}.targetHeight`, { positive: true });
+  }
+  if (building.targetFootprint !== undefined) {
+    ctx.tuple(building.targetFootprint, `${path}.targetFootprint`, 2, {
+      positive: true,
+    });
+  }
+  if (building.anchor !== undefined) {
+    ctx.oneOf(building.anchor, `${path}.anchor`, BUILDING_ANCHORS);
+  }
+  if (building.snapToGround !== undefined) {
+    ctx.boolean(building.snapToGround, `${path}.snapToGround`);
+  }
+
+  if (building.textures !== undefined) {
+    const textures = ctx.array(building.textures, `${path}.textures`);
+    textures?.forEach((texture, index) =>
+      validateTexture(ctx, texture, `${path}.textures[${index}]`)
+    );
+  }
+
+  if (building.lod !== undefined) {
+    validateLod(ctx, building.lod, `${path}.lod`);
+  }
+};
+
+const validateRoads = (
+  ctx: ValidationContext,
+  value: unknown,
+  path: string
+): void => {
+  const roads = ctx.object(value, path);
+  if (!roads) return;
+
+  ctx.oneOf(roads.layout, `${path}.layout`, ROAD_LAYOUTS);
+  ctx.number(roads.width, `${path}.width`, { positive: true });
+  ctx.number(roads.lanes, `${path}.lanes`, { positive: true, integer: true });
+  ctx.number(roads.sidewalkWidth, `${path}.sidewalkWidth`, { min: 0 });
+  ctx.number(roads.curbHeight, `${path}.curbHeight`, { min: 0 });
+  (["sidewalkColor", "curbColor", "markingColor"] as const).forEach((key) => {
+    if (roads[key] !== undefined) ctx.color(roads[key], `${path}.${key}`);
+  });
+  if (roads.laneMarkings !== undefined) {
+    ctx.boolean(roads.laneMarkings, `${path}.laneMarkings`);
+  }
+
+  if (roads.layout === "grid") {
+    ctx.number(roads.blockSize, `${path}.blockSize`, { positive: true });
+    if (roads.extent !== undefined) {
+      ctx.number(roads.extent, `${path}.extent`, { positive: true });
+    }
+    if (roads.majorRoads !== undefined) {
+      const major = ctx.object(roads.majorRoads, `${path}.majorRoads`);
+      if (major) {
+        ctx.number(major.every, `${path}.majorRoads.every`, { positive: true, integer: true });
+        ctx.number(major.width, `${path}.majorRoads.width`, { positive: true });
+        ctx.number(major.lanes, `${path}.majorRoads.lanes`, { positive: true, integer: true });
+      }
+    }
+  }
+
+  if (roads.layout === "graph") {
+    const nodeIds = new Set<string>();
+    const nodes = ctx.array(roads.nodes, `${path}.nodes`);
+    nodes?.forEach((item, index) => {
+      const nodePath = `${path}.nodes[${index}]`;
+      const node = ctx.object(item, nodePath);
+      if (!node) return;
+      if (ctx.string(node.id, `${nodePath}.id`)) {
+        if (nodeIds.has(node.id as string)) {
+          ctx.error(`${nodePath}.id`, `duplicate node id "${node.id}"`);
+        }
+        nodeIds.add(node.id as string);
+      }
+      ctx.number(node.x, `${nodePath}.x`);
+      ctx.number(node.z, `${nodePath}.z`);
+    });
+
+    const edges = ctx.array(roads.edges, `${path}.edges`);
+    edges?.forEach((item, index) => {
+      const edgePath = `${path}.edges[${index}]`;
+      const edge = ctx.object(item, edgePath);
+      if (!edge) return;
+      (["from", "to"] as const).forEach((key) => {
+        if (ctx.string(edge[key], `${edgePath}.${key}`) && !nodeIds.has(edge[key] as string)) {
+          ctx.error(`${edgePath}.${key}`, `unknown node "${edge[key]}"`);
+        }
+      });
+      if (edge.width !== undefined) {
+        ctx.number(edge.width, `${edgePath}.width`, { positive: true });
+      }
+      if (edge.lanes !== undefined) {
+        ctx.number(edge.lanes, `${edgePath}.lanes`, { positive: true, integer: true });
+      }
+    });
+  }
+};
+
+const validateGround = (
+  ctx: ValidationContext,
+  value: unknown,
+  path: string
+): void => {
+  const ground = ctx.object(value, path);
+  if (!ground) return;
+
+  ctx.boolean(ground.enabled, `${path}.enabled`);
+  ctx.number(ground.size, `${path}.size`, { positive: true });
+  ctx.color(ground.color, `${path}.color`);
+  ctx.number(ground.roughness, `${path}.roughness`, { min: 0, max: 1 });
+  ctx.boolean(ground.includeRoads, `${path}.includeRoads`);
+  ctx.color(ground.roadColor, `${path}.roadColor`);
+
+  if (ground.roads !== undefined) {
+    validateRoads(ctx, ground.roads, `${path}.roads`);
+  }
+};
+
+const validateStreetLights = (
+  ctx: ValidationContext,
+  value: unknown,
+  path: string
+): void => {
+  const streetLights = ctx.object(value, path);
+  if (!streetLights) return;
+
+  ctx.boolean(streetLights.enabled, `${path}.enabled`);
+  ctx.number(streetLights.intensity, `${path}.intensity`, { min: 0 });
+  ctx.number(streetLights.distance, `${path}.distance`, { positive: true });
+  ctx.color(streetLights.color, `${path}.color`);
+  validateShadowResolution(ctx, streetLights.shadowResolution, `${path}.shadowResolution`);
+
+  if (streetLights.maxActiveLights !== undefined) {
+    ctx.number(streetLights.maxActiveLights, `${path}.maxActiveLights`, {
+      min: 0,
+      integer: true,
+    });
+  }
+  if (streetLights.maxShadowLights !== undefined) {
+    ctx.number(streetLights.maxShadowLights, `${path}.maxShadowLights`, {
+      min: 0,
+      integer: true,
+    });
+  }
+
+  if (streetLights.placement !== undefined) {
+    ctx.oneOf(streetLights.placement, `${path}.placement`, ["manual", "auto"]);
+  }
+
+  if (streetLights.autoPlacement !== undefined) {
+    const auto = ctx.object(streetLights.autoPlacement, `${path}.autoPlacement`);
+    if (auto) {
+      const autoPath = `${path}.autoPlacement`;
+      ctx.number(auto.spacing, `${autoPath}.spacing`, { positive: true });
+      ctx.number(auto.sideOffset, `${autoPath}.sideOffset`, { min: 0 });
+      ctx.number(auto.intersectionClearance, `${autoPath}.intersectionClearance`, { min: 0 });
+      ctx.number(auto.buildingClearance, `${autoPath}.buildingClearance`, { min: 0 });
+      if (auto.bothSides !== undefined) {
+        ctx.boolean(auto.bothSides, `${autoPath}.bothSides`);
+      }
+      if (auto.staggered !== undefined) {
+        ctx.boolean(auto.staggered, `${autoPath}.staggered`);
+      }
+      if (auto.maxDistanceFromCenter !== undefined) {
+        ctx.number(auto.maxDistanceFromCenter, `${autoPath}.maxDistanceFromCenter`, {
+          positive: true,
+        });
+      }
+    }
+  } else if (streetLights.placement === "auto") {
+    ctx.error(`${path}.autoPlacement`, 'required when placement is "auto"');
+  }
+
+  if (streetLights.positions !== undefined) {
+    const positions = ctx.array(streetLights.positions, `${path}.positions`);
+    positions?.forEach((item, index) => {
+      const itemPath = `${path}.positions[${index}]`;
+      const position = ctx.object(item, itemPath);
+      if (!position) return;
+      ctx.number(position.x, `${itemPath}.x`);
+      ctx.number(position.z, `${itemPath}.z`);
+      ctx.number(position.rotation, `${itemPath}.rotation`);
+    });
+  }
+};
+
+const validateTimeOfDay = (
+  ctx: ValidationContext,
+  value: unknown,
+  path: string
+): void => {
+  const timeOfDay = ctx.object(value, path);
+  if (!timeOfDay) return;
+
+  ctx.boolean(timeOfDay.enabled, `${path}.enabled`);
+  ctx.number(timeOfDay.hours, `${path}.hours`, { min: 0, max: 24 });
+  if (timeOfDay.timeScale !== undefined) {
+    ctx.number(timeOfDay.timeScale, `${path}.timeScale`, { min: 0 });
+  }
+
+  if (timeOfDay.keyframes === undefined) return;
+  const keyframes = ctx.array(timeOfDay.keyframes, `${path}.keyframes`);
+  if (keyframes && keyframes.length === 0) {
+    ctx.error(`${path}.keyframes`, "expected at least one keyframe");
+  }
+  keyframes?.forEach((item, index) => {
+    const keyframePath = `${path}.keyframes[${index}]`;
+    const keyframe = ctx.object(item, keyframePath);
+    if (!keyframe) return;
+
+    ctx.number(keyframe.hour, `${keyframePath}.hour`, { min: 0, max: 24 });
+    (["sunColor", "ambientColor", "fillColor", "fogColor", "skyColor"] as const).forEach(
+      (key) => ctx.color(keyframe[key], `${keyframePath}.${key}`)
+    );
+    (["sunIntensity", "ambientIntensity", "fillIntensity"] as const).forEach((key) =>
+      ctx.number(keyframe[key], `${keyframePath}.${key}`, { min: 0 })
+    );
+    ctx.number(keyframe.fogDensity, `${keyframePath}.fogDensity`, {
+      min: FOG_DENSITY_RANGE[0],
+      max: FOG_DENSITY_RANGE[1],
+    });
+    ctx.number(keyframe.cityLights, `${keyframePath}.cityLights`, { min: 0, max: 1 });
+  });
+};
+
+const validateLighting = (
+  ctx: ValidationContext,
+  value: unknown,
+  path: string
+): void => {
+  const lighting = ctx.object(value, path);
+  if (!lighting) return;
+
+  const ambient = ctx.object(lighting.ambient, `${path}.ambient`);
+  if (ambient) {
+    ctx.boolean(ambient.enabled, `${path}.ambient.enabled`);
+    ctx.color(ambient.color, `${path}.ambient.color`);
+    ctx.number(ambient.intensity, `${path}.ambient.intensity`, { min: 0 });
+  }
+
+  const directional = ctx.object(lighting.directional, `${path}.directional`);
+  if (directional) {
+    const directionalPath = `${path}.directional`;
+    ctx.boolean(directional.enabled, `${directionalPath}.enabled`);
+    ctx.color(directional.color, `${directionalPath}.color`);
+    ctx.number(directional.intensity, `${directionalPath}.intensity`, { min: 0 });
+    ctx.tuple(directional.position, `${directionalPath}.position`, 3);
+    ctx.boolean(directional.shadowEnabled, `${directionalPath}.shadowEnabled`);
+    validateShadowResolution(
+      ctx,
+      directional.shadowResolution,
+      `${directionalPath}.shadowResolution`
+    );
+  }
+
+  const fill = ctx.object(lighting.fill, `${path}.fill`);
+  if (fill) {
+    ctx.boolean(fill.enabled, `${path}.fill.enabled`);
+    ctx.color(fill.color, `${path}.fill.color`);
+    ctx.number(fill.intensity, `${path}.fill.intensity`, { min: 0 });
+    ctx.tuple(fill.position, `${path}.fill.position`, 3);
+  }
+
+  const fog = ctx.object(lighting.fog, `${path}.fog`);
+  if (fog) {
+    ctx.boolean(fog.enabled, `${path}.fog.enabled`);
+    ctx.color(fog.color, `${path}.fog.color`);
+    ctx.number(fog.density, `${path}.fog.density`, {
+      min: FOG_DENSITY_RANGE[0],
+      max: FOG_DENSITY_RANGE[1],
+    });
+  }
+
+  if (lighting.timeOfDay !== undefined) {
+    validateTimeOfDay(ctx, lighting.timeOfDay, `${path}.timeOfDay`);
+  }
+};
+
+const validateWeather = (
+  ctx: ValidationContext,
+  value: unknown,
+  path: string
+): void => {
+  const weather = ctx.object(value, path);
+  if (!weather) return;
+
+  ctx.boolean(weather.enabled, `${path}.enabled`);
+  ctx.oneOf(weather.type, `${path}.type`, WEATHER_TYPES);
+  if (weather.transitionSeconds !== undefined) {
+    ctx.number(weather.transitionSeconds, `${path}.transitionSeconds`, { min: 0 });
+  }
+  if (weather.maxRainDrops !== undefined) {
+    ctx.number(weather.maxRainDrops, `${path}.maxRainDrops`, {
+      min: 0,
+      integer: true,
+    });
+  }
+  if (weather.rainArea !== undefined) {
+    ctx.number(weather.rainArea, `${path}.rainArea`, { positive: true });
+  }
+};
+
+const validateEnvironment = (
+  ctx: ValidationContext,
+  value: unknown,
+  path: string
+): void => {
+  const environment = ctx.object(value, path);
+  if (!environment) return;
+
+  validateGround(ctx, environment.ground, `${path}.ground`);
+  validateStreetLights(ctx, environment.streetLights, `${path}.streetLights`);
+  validateLighting(ctx, environment.lighting, `${path}.lighting`);
+
+  if (environment.weather !== undefined) {
+    validateWeather(ctx, environment.weather, `${path}.weather`);
+  }
+};
+
+const validateTextureOptimization = (
+  ctx: ValidationContext,
+  value: unknown,
+  path: string
+): void => {
+  const optimization = ctx.object(value, path);
+  if (!optimization) return;
+
+  ctx.boolean(optimization.enabled, `${path}.enabled`);
+  ctx.number(optimization.maxTextureUnits, `${path}.maxTextureUnits`, {
+    positive: true,
+    integer: true,
+  });
+  ctx.boolean(
+    optimization.disableTexturesWhenOverLimit,
+    `${path}.disableTexturesWhenOverLimit`
+  );
+
+  (["priorityTextures", "optionalTextures"] as const).forEach((key) => {
+    const list = ctx.array(optimization[key], `${path}.${key}`);
+    list?.forEach((item, index) =>
+      ctx.oneOf(item, `${path}.${key}[${index}]`, TEXTURE_TYPES)
+    );
+  });
+};
+
+const validateInstancing = (
+  ctx: ValidationContext,
+  value: unknown,
+  path: string
+): void => {
+  const instancing = ctx.object(value, path);
+  if (!instancing) return;
+
+  ctx.boolean(instancing.enabled, `${path}.enabled`);
+  if (instancing.minInstances !== undefined) {
+    ctx.number(instancing.minInstances, `${path}.minInstances`, {
+      min: 1,
+      integer: true,
+    });
+  }
+};
+
+/**
+ * Checks the fields shared by camera keyframes and bookmarks
+ */
+const validateCameraView = (
+  ctx: ValidationContext,
+  view: Record<string, unknown>,
+  path: string
+): void => {
+  ctx.tuple(view.position, `${path}.position`, 3);
+  ctx.tuple(view.target, `${path}.target`, 3);
+  if (view.fov !== undefined) {
+    ctx.number(view.fov, `${path}.fov`, { positive: true, max: 179 });
+  }
+};
+
+const validateCameraKeyframe = (
+  ctx: ValidationContext,
+  value: unknown,
+  path: string
+): void => {
+  const keyframe = ctx.object(value, path);
+  if (!keyframe) return;
+
+  ctx.number(keyframe.time, `${path}.time`, { min: 0 });
+  validateCameraView(ctx, keyframe, path);
+};
+
+const validateCameraBookmark = (
+  ctx: ValidationContext,
+  value: unknown,
+  path: string
+): void => {
+  const bookmark = ctx.object(value, path);
+  if (!bookmark) return;
+
+  ctx.string(bookmark.id, `${path}.id`);
+  if (bookmark.name !== undefined) {
+    ctx.string(bookmark.name, `${path}.name`);
+  }
+  validateCameraView(ctx, bookmark, path);
+};
+
+/**
+ * Reports items of a list that reuse an earlier item's id
+ */
+const validateUniqueIds = (
+  ctx: ValidationContext,
+  items: unknown[] | null,
+  path: string
+): void => {
+  const seenIds = new Map<string, number>();
+  items?.forEach((item, index) => {
+    if (!isPlainObject(item) || typeof item.id !== "string") return;
+    const firstIndex = seenIds.get(item.id);
+    if (firstIndex !== undefined) {
+      ctx.error(
+        `${path}[${index}].id`,
+        `duplicate id "${item.id}" (already used by ${path}[${firstIndex}])`
+      );
+    } else {
+      seenIds.set(item.id, index);
+    }
+  });
+};
+
+const validateCameraPathConfig = (
+  ctx: ValidationContext,
+  value: unknown,
+  path: string
+): void => {
+  const cameraPath = ctx.object(value, path);
+  if (!cameraPath) return;
+
+  ctx.string(cameraPath.id, `${path}.id`);
+  if (cameraPath.name !== undefined) {
+    ctx.string(cameraPath.name, `${path}.name`);
+  }
+  if (cameraPath.easing !== undefined) {
+    ctx.oneOf(cameraPath.easing, `${path}.easing`, CAMERA_PATH_EASINGS);
+  }
+  if (cameraPath.loop !== undefined) {
+    ctx.boolean(cameraPath.loop, `${path}.loop`);
+  }
+
+  const keyframes = ctx.array(cameraPath.keyframes, `${path}.keyframes`);
+  if (!keyframes) return;
+  if (keyframes.length < 2) {
+    ctx.error(
+      `${path}.keyframes`,
+      `expected at least 2 keyframes, got ${keyframes.length}`
+    );
+  }
+  keyframes.forEach((keyframe, index) =>
+    validateCameraKeyframe(ctx, keyframe, `${path}.keyframes[${index}]`)
+  );
+
+  // The spline is timed by the keyframes, so time must move forward
+  keyframes.forEach((keyframe, index) => {
+    if (index === 0) return;
+    const previous = keyframes[index - 1];
+    if (
+      isPlainObject(keyframe) &&
+      isPlainObject(previous) &&
+      typeof keyframe.time === "number" &&
+      typeof previous.time === "number" &&
+      keyframe.time <= previous.time
+    ) {
+      ctx.error(
+        `${path}.keyframes[${index}].time`,
+        `expected a time after ${previous.time} (keyframes[${index - 1}]), got ${keyframe.time}`
+      );
+    }
+  });
+};
+
+/**
+ * Validates a camera path at runtime, e.g. one imported from JSON
+ * @param cameraPath The value to validate
+ * @returns The validation result with every error found
+ */
+export const validateCameraPath = (cameraPath: unknown): ConfigValidationResult => {
+  const ctx = new ValidationContext();
+  validateCameraPathConfig(ctx, cameraPath, "$");
+  return { valid: ctx.errors.length === 0, errors: ctx.errors };
+};
+
+/**
+ * Validates a city configuration at runtime. Intended for layouts loaded
+ * from JSON, where the compile-time CityConfig types give no guarantees.
+ * @param config The value to validate
+ * @returns The validation result with every error found
+ */
+export const validateCityConfig = (config: unknown): ConfigValidationResult => {
+  const ctx = new ValidationContext();
+  const city = ctx.object(config, "$");
+
+  if (city) {
+    const buildings = ctx.array(city.buildings, "buildings");
+    buildings?.forEach((building, index) =>
+      validateBuilding(ctx, building, `buildings[${index}]`)
+    );
+
+    // Building ids must be unique so the registry can address them
+    validateUniqueIds(ctx, buildings, "buildings");
+
+    validateEnvironment(ctx, city.environment, "environment");
+
+    if (city.textureOptimization !== undefined) {
+      validateTextureOptimization(
+        ctx,
+        city.textureOptimization,
+        "textureOptimization"
+      );
+    }
+
+    if (city.instancing !== undefined) {
+      validateInstancing(ctx, city.instancing, "instancing");
+    }
+
+    if (city.snapToGround !== undefined) {
+      ctx.boolean(city.snapToGround, "snapToGround");
+    }
+
+    if (city.cameraPaths !== undefined) {
+      const cameraPaths = ctx.array(city.cameraPaths, "cameraPaths");
+      cameraPaths?.forEach((cameraPath, index) =>
+        validateCameraPathConfig(ctx, cameraPath, `cameraPaths[${index}]`)
+      );
+
+      // Paths are played by id
+      validateUniqueIds(ctx, cameraPaths, "cameraPaths");
+    }
+
+    if (city.cameraBookmarks !== undefined) {
+      const bookmarks = ctx.array(city.cameraBookmarks, "cameraBookmarks");
+      bookmarks?.forEach((bookmark, index) =>
+        validateCameraBookmark(ctx, bookmark, `cameraBookmarks[${index}]`)
+      );
+      validateUniqueIds(ctx, bookmarks, "cameraBookmarks");
+    }
+  }
+
+  return { valid: ctx.errors.length === 0, errors: ctx.errors };
+};
+
+/**
+ * Type guard variant of validateCityConfig
+ * @param config The value to check
+ * @returns True if the value is a valid CityConfig
+ */
+export const isValidCityConfig = (config: unknown): config is CityConfig =>
+  validateCityConfig(config).valid;
+
+/**
+ * Formats validation errors as one line per error
+ * @param errors The errors to format
+ * @returns A printable multi-line string
+ */
+export const formatValidationErrors = (
+  errors: ConfigValidationError[]
+): string => errors.map((error) => `${error.path}: ${error.message}`).join("\n");
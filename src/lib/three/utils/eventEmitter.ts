@@ -0,0 +1,57 @@
+/**
+ * Listener for one event of an event map
+ */
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed event emitter. The type parameter maps event names to
+ * their payloads, e.g. `EventEmitter<{ ready: { loadTime: number } }>`.
+ */
+export class EventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<EventListener<never>>>();
+
+  /**
+   * Subscribes to an event
+   * @param event The event name
+   * @param listener Called with the event payload
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener as EventListener<never>);
+    this.listeners.set(event, listeners);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Removes a listener
+   * @param event The event name
+   * @param listener The listener passed to on()
+   */
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    this.listeners.get(event)?.delete(listener as EventListener<never>);
+  }
+
+  /**
+   * Calls every listener of an event. A throwing listener is logged and
+   * doesn't stop the others.
+   * @param event The event name
+   * @param payload The event payload
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    this.listeners.get(event)?.forEach((listener) => {
+      try {
+        (listener as EventListener<Events[K]>)(payload);
+      } catch (error) {
+        console.error(`Error in "${String(event)}" listener:`, error);
+      }
+    });
+  }
+
+  /**
+   * Removes all listeners
+   */
+  clear(): void {
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,168 @@
+import * as THREE from "three";
+
+/**
+ * Rectangle on the ground plane, turned about the Y axis like the object it
+ * belongs to
+ */
+export interface OrientedFootprint {
+  /** Building or road id */
+  id: string;
+  /** Center on the ground plane [x, z] */
+  center: [number, number];
+  /** Half the size along the rectangle's own X and Z axes */
+  halfSize: [number, number];
+  /** Rotation about the Y axis in radians */
+  rotation: number;
+}
+
+/**
+ * How far two footprints overlap, found with the separating axis test
+ */
+export interface FootprintPenetration {
+  /** Overlap in meters along the direction */
+  depth: number;
+  /** Unit direction [x, z] that moves the first footprint out of the second */
+  direction: [number, number];
+}
+
+/**
+ * Gets the world directions of a footprint's own X and Z axes
+ * @param footprint The footprint
+ * @returns Unit vectors [x, z] for the local X and Z axes
+ */
+export const getFootprintAxes = (
+  footprint: OrientedFootprint
+): [[number, number], [number, number]] => {
+  const cos = Math.cos(footprint.rotation);
+  const sin = Math.sin(footprint.rotation);
+  // A rotation about Y turns local X to (cos, -sin) and local Z to (sin, cos)
+  return [
+    [cos, -sin],
+    [sin, cos],
+  ];
+};
+
+/**
+ * Gets the corners of a footprint
+ * @param footprint The footprint
+ * @returns The four corners [x, z], in order around the rectangle
+ */
+export const getFootprintCorners = (
+  footprint: OrientedFootprint
+): Array<[number, number]> => {
+  const [[ux, uz], [vx, vz]] = getFootprintAxes(footprint);
+  const [cx, cz] = footprint.center;
+  const [hw, hd] = footprint.halfSize;
+  return [
+    [1, 1],
+    [-1, 1],
+    [-1, -1],
+    [1, -1],
+  ].map(([su, sv]) => [cx + ux * hw * su + vx * hd * sv, cz + uz * hw * su + vz * hd * sv]);
+};
+
+/**
+ * Tests whether two footprints overlap (separating axis test on the four
+ * edge directions of the two rectangles)
+ * @param a The footprint to move out of the way
+ * @param b The other footprint
+ * @param margin Gap the footprints must keep to count as apart (default: 0)
+ * @returns The shallowest way out of the overlap, or null if the footprints are apart
+ */
+export const testFootprintOverlap = (
+  a: OrientedFootprint,
+  b: OrientedFootprint,
+  margin = 0
+): FootprintPenetration | null => {
+  // Cheap rejection with the bounding circles
+  const dx = a.center[0] - b.center[0];
+  const dz = a.center[1] - b.center[1];
+  const reach =
+    Math.hypot(...a.halfSize) + Math.hypot(...b.halfSize) + margin;
+  if (dx * dx + dz * dz >= reach * reach) return null;
+
+  const axesA = getFootprintAxes(a);
+  const axesB = getFootprintAxes(b);
+
+  // Projected half length of a footprint on an axis
+  const extent = (
+    footprint: OrientedFootprint,
+    [[ux, uz], [vx, vz]]: [[number, number], [number, number]],
+    [x, z]: [number, number]
+  ) =>
+    footprint.halfSize[0] * Math.abs(ux * x + uz * z) +
+    footprint.halfSize[1] * Math.abs(vx * x + vz * z);
+
+  let best: FootprintPenetration | null = null;
+  for (const axis of [...axesA, ...axesB]) {
+    const distance = dx * axis[0] + dz * axis[1];
+    const depth =
+      extent(a, axesA, axis) + extent(b, axesB, axis) + margin - Math.abs(distance);
+    // A gap on any axis separates the footprints
+    if (depth <= 0) return null;
+
+    if (!best || depth < best.depth) {
+      const sign = distance < 0 ? -1 : 1;
+      best = { depth, direction: [axis[0] * sign, axis[1] * sign] };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Computes the bounds of an object's geometry in the object's own frame,
+ * i.e. as authored, before its position, rotation and scale
+ * @param object The object, e.g. a placed building
+ * @returns The bounds (empty if the object has no geometry)
+ */
+export const computeLocalBounds = (object: THREE.Object3D): THREE.Box3 => {
+  object.updateWorldMatrix(true, true);
+
+  const toObject = object.matrixWorld.clone().invert();
+  const matrix = new THREE.Matrix4();
+  const meshBox = new THREE.Box3();
+  const localBox = new THREE.Box3();
+
+  object.traverse((child) => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh || !mesh.geometry) return;
+
+    if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+    matrix.multiplyMatrices(toObject, mesh.matrixWorld);
+    localBox.union(meshBox.copy(mesh.geometry.boundingBox!).applyMatrix4(matrix));
+  });
+
+  return localBox;
+};
+
+/**
+ * Computes the footprint of an object from its geometry, in the object's own
+ * frame so a turned building gets a tight, turned rectangle rather than a
+ * world-aligned box around it. Tilts about X and Z are ignored.
+ * @param object The object, e.g. a placed building
+ * @param id Id to give the footprint
+ * @returns The world-space footprint, or null if the object has no geometry
+ */
+export const computeObjectFootprint = (
+  object: THREE.Object3D,
+  id: string
+): OrientedFootprint | null => {
+  const localBox = computeLocalBounds(object);
+  if (localBox.isEmpty()) return null;
+
+  // The object's X and Z axes in the world, including its scale
+  const elements = object.matrixWorld.elements;
+  const scaleX = Math.hypot(elements[0], elements[2]);
+  const scaleZ = Math.hypot(elements[8], elements[10]);
+
+  const center = localBox.getCenter(new THREE.Vector3()).applyMatrix4(object.matrixWorld);
+  const size = localBox.getSize(new THREE.Vector3());
+
+  return {
+    id,
+    center: [center.x, center.z],
+    halfSize: [(size.x * scaleX) / 2, (size.z * scaleZ) / 2],
+    rotation: Math.atan2(-elements[2], elements[0]),
+  };
+};
@@ -0,0 +1,16 @@
+/**
+ * Returns true if a key event comes from a text field or other editable
+ * element, whose typing must not trigger scene shortcuts
+ * @param event The keyboard event
+ * @returns True if the event target accepts text input
+ */
+export const isEditableTarget = (event: KeyboardEvent): boolean => {
+  const target = event.target;
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+};
@@ -326,6 +326,7 @@ export class PerformanceBenchmark {
         geometries: 0,
         meshes: 0,
         lights: 0,
+        lodLevels: [],
       };
     }
 
@@ -373,8 +374,19 @@ export class PerformanceBenchmark {
       geometries: Math.round(sum.geometries / count),
       meshes: Math.round(sum.meshes / count),
       lights: Math.round(sum.lights / count),
+      lodLevels: [],
     };
 
+    // Average building count per LOD level
+    metrics.forEach((m) => {
+      m.lodLevels.forEach((value, level) => {
+        result.lodLevels[level] = (result.lodLevels[level] ?? 0) + value;
+      });
+    });
+    result.lodLevels = Array.from(result.lodLevels, (value) =>
+      Math.round((value ?? 0) / count)
+    );
+
     if (hasMemory) {
       result.memoryUsed = Math.round(sum.memoryUsed! / count);
       result.memoryTotal = Math.round(sum.memoryTotal! / count);
@@ -0,0 +1,78 @@
+/**
+ * Seeded pseudo random number generator (mulberry32). The same seed always
+ * produces the same sequence, so generated content is reproducible.
+ */
+export class SeededRandom {
+  private state: number;
+
+  /**
+   * Creates a generator
+   * @param seed Any number; fractional parts are ignored
+   */
+  constructor(seed: number) {
+    this.state = Math.floor(seed) >>> 0;
+  }
+
+  /**
+   * Gets the next value
+   * @returns A number in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Gets a number in a range
+   * @returns A number in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Gets an integer in a range
+   * @returns An integer in [min, max] (both inclusive)
+   */
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+
+  /**
+   * Returns true with the given probability
+   * @param probability 0 (never) to 1 (always)
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Picks a random item
+   * @param items A non-empty list
+   * @returns One of the items
+   */
+  pick<T>(items: ReadonlyArray<T>): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /**
+   * Derives an independent generator, e.g. one per building of a city, so
+   * adding items doesn't change the ones generated before them
+   * @returns A new generator seeded from this one
+   */
+  fork(): SeededRandom {
+    return new SeededRandom(this.next() * 4294967296);
+  }
+}
+
+/**
+ * Creates a seeded random number generator
+ * @param seed Any number; fractional parts are ignored
+ * @returns A SeededRandom instance
+ */
+export const createSeededRandom = (seed: number): SeededRandom => {
+  return new SeededRandom(seed);
+};
@@ -1,45 +1,198 @@
 import * as THREE from "three";
-import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
 
 // Import from modular structure
 import { assetManager } from "./lib/three/managers/assetManager";
-import { createCityBuilder } from "./lib/three/builders/cityBuilder";
-import { createCityEnvironment } from "./lib/three/environment/cityEnvironment";
 import {
-  cityConfig,
-  performanceConfig,
-  highQualityConfig,
-} from "./lib/three/config/cityConfig";
-import { createPerformanceTest } from "./lib/three/components/performanceTest";
+  type CityBuilder,
+  type PlacedBuilding,
+  createCityBuilder,
+} from "./lib/three/builders/cityBuilder";
+import {
+  type CityEnvironment,
+  createCityEnvironment,
+} from "./lib/three/environment/cityEnvironment";
+import {
+  type CameraController,
+  type CameraControllerOptions,
+  createCameraController,
+} from "./lib/three/camera/cameraController";
+import {
+  type CameraBookmarks,
+  createCameraBookmarks,
+  decodeViewHash,
+  encodeViewHash,
+} from "./lib/three/camera/cameraBookmarks";
+import {
+  getQualitySettings,
+  qualityConfigs,
+} from "./lib/three/config/qualityPresets";
+import {
+  type PerformanceTest,
+  createPerformanceTest,
+} from "./lib/three/components/performanceTest";
+import { createPerformanceMonitor } from "./lib/three/managers/performanceMonitor";
+import {
+  type AdaptiveQualityController,
+  type AdaptiveQualityOptions,
+  createAdaptiveQualityController,
+} from "./lib/three/managers/adaptiveQualityController";
 import { createLoadingScreen } from "./lib/three/components/loadingScreen";
+import {
+  type BuildingEditor,
+  createBuildingEditor,
+} from "./lib/three/editor/buildingEditor";
+import {
+  type CommandHistory,
+  createCommandHistory,
+} from "./lib/three/editor/commandHistory";
+import {
+  formatValidationErrors,
+  validateCityConfig,
+} from "./lib/three/utils/configValidator";
+import {
+  deserializeCityConfig,
+  deserializeCityConfigHistory,
+  fetchCityConfigDocument,
+} from "./lib/three/utils/cityConfigSerializer";
+import { EventEmitter } from "./lib/three/utils/eventEmitter";
+import { isEditableTarget } from "./lib/three/utils/keyboard";
+import type {
+  CityConfig,
+  EnvironmentConfig,
+  EnvironmentConfigPatch,
+  QualityLevel,
+  WeatherType,
+} from "./lib/three/types";
+
+/**
+ * A city layout to boot from instead of a built-in quality preset:
+ * either the URL of a JSON layout document or an already parsed document
+ */
+export type CityLayoutSource = { url: string } | { document: unknown };
+
+/**
+ * Options for initThreeScene
+ */
+export interface CitySceneOptions {
+  /** Quality preset to build (default: "default") */
+  quality?: QualityLevel;
+  /** JSON layout to load instead of the quality preset's city */
+  layout?: CityLayoutSource;
+  /** City configuration to build instead of a preset or layout */
+  config?: CityConfig;
+  /** Show the performance monitoring tools */
+  performanceMonitoring?: boolean;
+  /** Allow toggling the building editor with the 'B' key */
+  editor?: boolean;
+  /** Lower quality automatically when the frame rate drops (true or controller options) */
+  adaptiveQuality?: boolean | AdaptiveQualityOptions;
+  /** Initial camera settings */
+  camera?: CameraControllerOptions;
+  /**
+   * Keep the camera view in the URL hash, so a link reopens the scene at
+   * the same viewpoint (default: false)
+   */
+  viewInUrl?: boolean;
+}
+
+/** Seconds between checks whether the URL hash needs the new camera view */
+const VIEW_HASH_INTERVAL = 0.5;
+
+/**
+ * Events emitted by a city scene, with their payloads
+ */
+export interface CitySceneEvents {
+  /** The city is built and the environment set up */
+  ready: { config: CityConfig; loadTime: number };
+  /** A building was placed, during loading or by an edit */
+  buildingAdded: { building: PlacedBuilding };
+  /** Loading failed; the scene keeps rendering whatever was created */
+  error: { message: string; error?: unknown };
+}
+
+/**
+ * Handle to a running city scene
+ */
+export interface CityScene {
+  scene: THREE.Scene;
+  renderer: THREE.WebGLRenderer;
+  cityBuilder: CityBuilder;
+  environment: CityEnvironment;
+  cameraController: CameraController;
+  /** Named camera views, stored in the config's cameraBookmarks */
+  bookmarks: CameraBookmarks;
+  /** Performance tools, if enabled */
+  performanceTest: PerformanceTest | null;
+  /** Building editor and its undo/redo history, if enabled */
+  editor: BuildingEditor | null;
+  history: CommandHistory | null;
+  /**
+   * Resolves to true once the city is ready, or false if loading failed or
+   * the scene was disposed first
+   */
+  ready: Promise<boolean>;
+  isReady: () => boolean;
+  /**
+   * Switches to another quality preset without reloading the scene
+   * (resolves once textured buildings are reloaded)
+   */
+  setQuality: (level: QualityLevel) => Promise<void>;
+  /**
+   * Changes part of the environment configuration (see
+   * environment.applyConfig), undoably when the editor is enabled
+   * @returns The resulting full environment configuration
+   */
+  updateEnvironment: (patch: EnvironmentConfigPatch) => EnvironmentConfig;
+  /** Changes the configured weather, undoably when the editor is enabled */
+  setWeather: (type: WeatherType) => void;
+  /** Changes the configured time of day, undoably when the editor is enabled */
+  setTimeOfDay: (hours: number) => void;
+  /** Gets the active quality preset */
+  getQuality: () => QualityLevel;
+  /** Gets the adaptive quality controller, if enabled and the city is loaded */
+  getAdaptiveQuality: () => AdaptiveQualityController | null;
+  /**
+   * Plays one of the config's camera paths (see cameraController.pathPlayer
+   * to pause, seek or stop it)
+   * @returns False if the loaded config has no path with that id
+   */
+  playCameraPath: (id: string) => boolean;
+  /**
+   * Subscribes to a scene event
+   * @returns Function that removes the listener
+   */
+  on: <K extends keyof CitySceneEvents>(
+    event: K,
+    listener: (payload: CitySceneEvents[K]) => void
+  ) => () => void;
+  /** Stops rendering and frees the scene's resources */
+  dispose: () => void;
+}
 
 /**
  * Initialize Three.js scene with a cyberpunk city
  * @param container HTML container to render the scene in
- * @param quality Optional quality setting ('high', 'low', or default)
- * @param enablePerformanceMonitoring Whether to enable performance monitoring tools
- * @returns Cleanup function
+ * @param options Quality, layout and tool options
+ * @returns Handle to drive the scene
  */
 export const initThreeScene = (
   container: HTMLDivElement,
-  quality?: "high" | "low",
-  enablePerformanceMonitoring = false
-) => {
+  options: CitySceneOptions = {}
+): CityScene => {
+  const {
+    quality,
+    layout,
+    performanceMonitoring = false,
+    editor: enableEditor = false,
+    adaptiveQuality = false,
+    viewInUrl = false,
+  } = options;
+  const events = new EventEmitter<CitySceneEvents>();
+
   // Setup scene
   const scene = new THREE.Scene();
   scene.background = new THREE.Color(0x111111);
 
-  // Setup camera based on human scale (eye level is ~1.6-1.8m)
-  const camera = new THREE.PerspectiveCamera(
-    65, // Slightly wider FoV for urban environment (human eye is ~60-70°)
-    window.innerWidth / window.innerHeight,
-    0.1, // Near plane at 10cm
-    1000 // Far plane at 1km for distant buildings
-  );
-
-  // Position camera at human eye level (1.7m) and 30m back from scene center
-  camera.position.set(0, 1.7, 30);
-
   // Setup renderer with appropriate pixel ratio for device
   const renderer = new THREE.WebGLRenderer({
     antialias: true,
@@ -52,70 +205,226 @@ export const initThreeScene = (
   renderer.shadowMap.type = THREE.PCFSoftShadowMap;
   container.appendChild(renderer.domElement);
 
-  // Add orbit controls
-  const controls = new OrbitControls(camera, renderer.domElement);
-  controls.enableDamping = true; // adds smooth damping effect
-  controls.dampingFactor = 0.05;
+  // Building boxes the walk mode collides with, refreshed when buildings change
+  let buildingBounds: THREE.Box3[] = [];
+
+  // Camera at human scale with orbit controls and a first-person walk mode
+  // (toggled with the 'F' key)
+  const cameraController = createCameraController(renderer.domElement, {
+    ...options.camera,
+    walk: {
+      getObstacles: () => buildingBounds,
+      ...options.camera?.walk,
+    },
+    onModeChange: (mode) => {
+      // The editor needs the mouse and uses W for its gizmo
+      if (mode === "walk") editor?.setEnabled(false);
+      options.camera?.onModeChange?.(mode);
+    },
+  });
+  const camera = cameraController.camera;
+
+  // Open at the view of a shared link
+  const urlView = viewInUrl ? decodeViewHash(window.location.hash) : null;
+  if (urlView) cameraController.setView(urlView);
+
+  // Camera bookmarks, cycled with '[' and ']', jumped to with 1-9 and
+  // added with 'M' (the config's bookmarks are attached once it is loaded)
+  const bookmarks = createCameraBookmarks(cameraController);
 
-  // Set controls target to look slightly upward at buildings
-  controls.target.set(0, 10, 0);
+  // The layout document, kept to restore the edit history saved with it
+  let layoutDocument: unknown = null;
+
+  // Select configuration based on quality setting or the layout source
+  const getConfig = async (): Promise<CityConfig> => {
+    if (options.config) {
+      console.log("Using provided city configuration");
+      return options.config;
+    }
 
-  // Set minimum distance to prevent going inside objects
-  controls.minDistance = 1.0; // 1 meter minimum distance
-  controls.maxDistance = 150; // 150 meters maximum distance
+    if (layout) {
+      if ("url" in layout) {
+        console.log(`Loading city layout from ${layout.url}`);
+        layoutDocument = await fetchCityConfigDocument(layout.url);
+      } else {
+        console.log("Using city layout from provided document");
+        layoutDocument = layout.document;
+      }
+      return deserializeCityConfig(layoutDocument);
+    }
 
-  // Select configuration based on quality setting
-  const getConfigByQuality = () => {
     switch (quality) {
       case "high":
         console.log("Using high quality configuration");
-        return highQualityConfig;
+        return qualityConfigs.high;
       case "low":
         console.log("Using performance (low quality) configuration");
-        return performanceConfig;
+        return qualityConfigs.low;
       default:
         console.log("Using default quality configuration");
-        return cityConfig;
+        return qualityConfigs.default;
     }
   };
 
-  // Get configuration
-  const config = getConfigByQuality();
+  // Layouts and configurations are built as authored, which counts as the
+  // default quality
+  let currentQuality: QualityLevel =
+    (!layout && !options.config && quality) || "default";
 
-  // Create city builder and environment managers with configuration
+  // Create city builder and environment managers (the environment receives
+  // its configuration once the layout is resolved)
   const cityBuilder = createCityBuilder(scene);
-  const environment = createCityEnvironment(scene, config.environment);
+  const environment = createCityEnvironment(scene);
+  const removeBuildingListener = cityBuilder.onBuildingAdded((building) =>
+    events.emit("buildingAdded", { building })
+  );
+  // Buildings are checked for overlaps against the current roads
+  const removeGroundListener = environment.onGroundChange(() =>
+    cityBuilder.setRoadFootprints(environment.getRoadFootprints())
+  );
+  const removeChangeListener = cityBuilder.onChange(() => {
+    buildingBounds = Array.from(cityBuilder.getBuildingBounds().values());
+    // New and reloaded buildings start with full neon, dim them to the time of day
+    environment.refreshBuildingLights();
+  });
+
+  // Building editor (edit mode toggled with the 'B' key) with undo/redo history
+  const history = enableEditor
+    ? createCommandHistory({ cityBuilder, environment })
+    : null;
+  const editor = history
+    ? createBuildingEditor(camera, renderer.domElement, scene, cameraController.controls, cityBuilder, {
+        gridSize: 200,
+        history,
+        overlapPolicy: "nudge",
+        onBuildingTransformed: (placement) => {
+          console.log(
+            `Building "${placement.id}" moved to [${placement.position.join(", ")}]`
+          );
+        },
+      })
+    : null;
+
+  const handleEditorKeyDown = (event: KeyboardEvent) => {
+    if (isEditableTarget(event)) return;
+    if (editor && (event.key === "b" || event.key === "B")) {
+      if (!editor.isEnabled()) cameraController.setMode("orbit");
+      editor.setEnabled(!editor.isEnabled());
+    }
+  };
+  window.addEventListener("keydown", handleEditorKeyDown);
+
+  // Undo/redo work in every mode, not only while the editor is on
+  const handleHistoryKeyDown = (event: KeyboardEvent) => {
+    if (!history || isEditableTarget(event)) return;
+    history.handleKeyDown(event);
+  };
+  window.addEventListener("keydown", handleHistoryKeyDown);
+
+  // Switch between orbiting and walking (press 'F')
+  const handleCameraKeyDown = (event: KeyboardEvent) => {
+    if (isEditableTarget(event)) return;
+    if (event.key === "f" || event.key === "F") {
+      cameraController.toggleMode();
+    }
+  };
+  window.addEventListener("keydown", handleCameraKeyDown);
+
+  const handleBookmarkKeyDown = (event: KeyboardEvent) => {
+    // Leave shortcuts such as Ctrl+1 to the browser, and typing to text fields
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+    if (isEditableTarget(event)) return;
+
+    if (event.key === "]") {
+      bookmarks.next();
+    } else if (event.key === "[") {
+      bookmarks.previous();
+    } else if (event.key === "m" || event.key === "M") {
+      bookmarks.add();
+    } else if (/^[1-9]$/.test(event.key)) {
+      const index = Number(event.key) - 1;
+      if (index < bookmarks.getBookmarks().length) bookmarks.goToIndex(index);
+    }
+  };
+  window.addEventListener("keydown", handleBookmarkKeyDown);
+
+  // Follow links to another view while the scene is open
+  const handleHashChange = () => {
+    const view = decodeViewHash(window.location.hash);
+    if (view) cameraController.flyTo(view);
+  };
+  if (viewInUrl) {
+    window.addEventListener("hashchange", handleHashChange);
+  }
+
+  /**
+   * Writes the current view into the URL hash if it changed (replacing the
+   * history entry, so moving around doesn't fill the back button)
+   */
+  const updateViewHash = () => {
+    const hash = encodeViewHash(cameraController.getView(), window.location.hash);
+    if (hash !== window.location.hash) {
+      window.history.replaceState(null, "", hash);
+    }
+  };
+  let viewHashTimer = 0;
 
   // Performance monitoring
-  let performanceTest: ReturnType<typeof createPerformanceTest> | null = null;
+  let performanceTest: PerformanceTest | null = null;
+
+  // Keyboard shortcut to log the current metrics (press 'P')
+  const handleMetricsKeyDown = (event: KeyboardEvent) => {
+    if (isEditableTarget(event)) return;
+    if (event.key === "p" || event.key === "P") {
+      // Get current metrics and log them
+      const metrics = performanceTest?.perfMonitor.getMetrics();
+      if (metrics) {
+        console.group("Current Performance Metrics");
+        console.log(`FPS: ${metrics.fps.toFixed(1)}`);
+        console.log(`Frame Time: ${metrics.frameTime.toFixed(2)}ms`);
+        console.log(`Triangles: ${metrics.triangles.toLocaleString()}`);
+        console.log(`Draw Calls: ${metrics.calls}`);
+        console.log(`Meshes: ${metrics.meshes}`);
+        console.groupEnd();
+      }
+    }
+  };
 
-  if (enablePerformanceMonitoring) {
+  if (performanceMonitoring) {
     console.log("Initializing performance monitoring...");
     performanceTest = createPerformanceTest(renderer, scene, container);
     performanceTest.init();
-
-    // Add keyboard shortcut to toggle stats panel (press 'P')
-    window.addEventListener("keydown", (event) => {
-      if (event.key === "p" || event.key === "P") {
-        // Get current metrics and log them
-        const metrics = performanceTest?.perfMonitor.getMetrics();
-        if (metrics) {
-          console.group("Current Performance Metrics");
-          console.log(`FPS: ${metrics.fps.toFixed(1)}`);
-          console.log(`Frame Time: ${metrics.frameTime.toFixed(2)}ms`);
-          console.log(`Triangles: ${metrics.triangles.toLocaleString()}`);
-          console.log(`Draw Calls: ${metrics.calls}`);
-          console.log(`Meshes: ${metrics.meshes}`);
-          console.groupEnd();
-        }
-      }
-    });
+    window.addEventListener("keydown", handleMetricsKeyDown);
   }
 
+  // Adaptive quality, with its own frame rate monitor so hiding the stats
+  // panel doesn't freeze its input; created once the city is loaded
+  const qualityMonitor = adaptiveQuality
+    ? createPerformanceMonitor(renderer, scene, {
+        showStatsPanel: false,
+        trackRendererStats: false,
+        trackMemory: false,
+        rollingWindow: 1,
+      })
+    : null;
+  let adaptiveController: AdaptiveQualityController | null = null;
+  let isReady = false;
+  // Set by dispose, so a load still in progress stops at its next step
+  let disposed = false;
+
+  /**
+   * Reports a loading failure to the console and the error listeners
+   */
+  const reportError = (message: string, error?: unknown) => {
+    console.error(message, error ?? "");
+    events.emit("error", { message, error });
+  };
+
   /**
    * Initialize the scene with buildings and environment
+   * @returns Promise resolving to true if the city is ready
    */
-  const init = async () => {
+  const init = async (): Promise<boolean> => {
     try {
       console.log("Initializing city scene...");
 
@@ -131,28 +440,74 @@ export const initThreeScene = (
       // Show loading screen
       loadingScreen.show();
 
+      /**
+       * Stops loading if the scene was disposed while waiting
+       */
+      const cancelled = () => {
+        if (!disposed) return false;
+        console.log("City scene disposed while loading");
+        loadingScreen.hide();
+        return true;
+      };
+
+      // Resolve the configuration (may fetch a layout document)
+      let config: CityConfig;
+      try {
+        config = await getConfig();
+      } catch (error) {
+        reportError("Failed to load city layout:", error);
+        loadingScreen.hide();
+        return false;
+      }
+      if (cancelled()) return false;
+
+      // Validate the configuration before anything is placed in the scene
+      const validation = validateCityConfig(config);
+      if (!validation.valid) {
+        reportError(
+          `Invalid city configuration (${validation.errors.length} errors):\n${formatValidationErrors(
+            validation.errors
+          )}`
+        );
+        loadingScreen.hide();
+        return false;
+      }
+
       // Mark the start time for initialization
       const startTime = performance.now();
 
       // Build the city with the buildings defined in the config (with preloading)
       await cityBuilder.buildCity(config, true);
+      if (cancelled()) {
+        cityBuilder.clearBuildings();
+        return false;
+      }
 
       // const light = new THREE.AmbientLight(0x404040, 1.2); // soft white light
       // scene.add(light);
 
       // Set up the environment (ground, roads, lights) using the config
+      environment.setConfig(config.environment);
+      environment.setBuildingFootprints(cityBuilder.getBuildingFootprints());
       environment.initialize();
 
-      // Mark buildings for performance monitoring
-      scene.traverse((object) => {
-        if (
-          object instanceof THREE.Mesh &&
-          object.parent &&
-          object.parent.userData.type !== "building"
-        ) {
-          object.parent.userData.type = "building";
-        }
-      });
+      // Check the layout against itself and the roads just created
+      cityBuilder.reportOverlaps();
+
+      // Bookmarks live in the loaded config, so they are saved with it
+      const loadedConfig = cityBuilder.getConfig();
+      if (loadedConfig) {
+        loadedConfig.cameraBookmarks = [...(loadedConfig.cameraBookmarks ?? [])];
+        bookmarks.setBookmarks(loadedConfig.cameraBookmarks);
+      }
+
+      // Layouts exported from the editor keep their undo/redo stacks
+      const savedHistory = layoutDocument
+        ? deserializeCityConfigHistory(layoutDocument)
+        : null;
+      if (history && savedHistory) {
+        history.load(savedHistory);
+      }
 
       // Log initialization time
       const endTime = performance.now();
@@ -165,8 +520,28 @@ export const initThreeScene = (
 
       // Log overall scene statistics
       logSceneStatistics();
+      // Native model sizes, to spot models that aren't in meters
+      cityBuilder.logAssetReport();
+
+      if (qualityMonitor) {
+        adaptiveController = createAdaptiveQualityController(
+          { renderer, cityBuilder, environment, monitor: qualityMonitor },
+          typeof adaptiveQuality === "object" ? adaptiveQuality : {}
+        );
+      }
+
+      isReady = true;
+      events.emit("ready", {
+        config: cityBuilder.getConfig() ?? config,
+        loadTime: (endTime - startTime) / 1000,
+      });
+      return true;
     } catch (error) {
-      console.error("Error initializing city scene:", error);
+      // Errors from a scene torn down mid-load are expected
+      if (!disposed) {
+        reportError("Error initializing city scene:", error);
+      }
+      return false;
     }
   };
 
@@ -250,51 +625,159 @@ export const initThreeScene = (
   };
 
   // Start initialization
-  init();
+  const ready = init();
+
+  /**
+   * Updates the live environment and the loaded config, recording the change
+   * in the undo history
+   */
+  const updateEnvironment = (patch: EnvironmentConfigPatch) => {
+    const before = environment.getConfig();
+    const after = environment.applyConfig(patch);
+    const config = cityBuilder.getConfig();
+    if (config) {
+      config.environment = after;
+    }
+    if (history && JSON.stringify(before) !== JSON.stringify(after)) {
+      history.record({ type: "updateEnvironment", before, after });
+    }
+    return after;
+  };
+
+  /**
+   * Applies a quality preset's shadow, light, fog, rain and texture settings
+   * to the loaded city, keeping its layout and any edits
+   */
+  const setQuality = async (level: QualityLevel) => {
+    if (!(await ready)) {
+      console.warn(`Cannot switch to ${level} quality, the city failed to load`);
+      return;
+    }
+    const config = cityBuilder.getConfig();
+    if (!config) {
+      console.warn(`Cannot switch to ${level} quality, the city is not loaded`);
+      return;
+    }
+
+    console.log(`Switching to ${level} quality`);
+    currentQuality = level;
+    const settings = getQualitySettings(level);
+    updateEnvironment(settings.environment);
+    await cityBuilder.setTextureOptimization(settings.textureOptimization);
+
+    // Adapt from the new preset
+    adaptiveController?.reset();
+  };
+
+  /**
+   * Plays a camera path from the loaded configuration
+   */
+  const playCameraPath = (id: string) => {
+    const path = cityBuilder.getConfig()?.cameraPaths?.find((item) => item.id === id);
+    if (!path) {
+      console.warn(`Camera path "${id}" not found`);
+      return false;
+    }
+    cameraController.playPath(path);
+    return true;
+  };
 
   // Handle window resize
   const handleResize = () => {
-    camera.aspect = window.innerWidth / window.innerHeight;
-    camera.updateProjectionMatrix();
+    cameraController.resize(window.innerWidth, window.innerHeight);
     renderer.setSize(window.innerWidth, window.innerHeight);
   };
   window.addEventListener("resize", handleResize);
 
   // Animation loop
+  const clock = new THREE.Clock();
+  let animationFrame = 0;
   const animate = () => {
-    requestAnimationFrame(animate);
+    animationFrame = requestAnimationFrame(animate);
 
-    // Update controls
-    controls.update();
+    const deltaSeconds = clock.getDelta();
+
+    // Update controls (orbiting, walking or following a camera path)
+    cameraController.update(deltaSeconds);
+
+    // Give the real street lights to the poles nearest the camera and
+    // advance the day/night cycle
+    environment.update(camera, deltaSeconds);
+
+    // Keep the editor's selection outline in sync
+    if (editor) {
+      editor.update();
+    }
 
     // Update performance monitoring
     if (performanceTest) {
       performanceTest.update();
     }
 
+    // Step quality up or down based on the frame rate
+    qualityMonitor?.update();
+    adaptiveController?.update(deltaSeconds);
+
+    // Keep the view in the URL for sharing
+    if (viewInUrl) {
+      viewHashTimer += deltaSeconds;
+      if (viewHashTimer >= VIEW_HASH_INTERVAL) {
+        viewHashTimer = 0;
+        updateViewHash();
+      }
+    }
+
     renderer.render(scene, camera);
   };
   animate();
 
-  // Return cleanup function
-  return () => {
+  // Cleanup function
+  const dispose = () => {
+    disposed = true;
+    isReady = false;
+
+    // Stop rendering and notifying
+    cancelAnimationFrame(animationFrame);
+    removeBuildingListener();
+    removeChangeListener();
+    removeGroundListener();
+    events.clear();
+
     // Dispose performance monitoring
     if (performanceTest) {
       performanceTest.dispose();
     }
+    qualityMonitor?.dispose();
+    adaptiveController?.dispose();
+    adaptiveController = null;
 
     // Clear model cache
     assetManager.clearCache();
 
+    // Dispose the building editor
+    if (editor) {
+      editor.dispose();
+    }
+
     // Remove event listeners
     window.removeEventListener("resize", handleResize);
+    window.removeEventListener("keydown", handleEditorKeyDown);
+    window.removeEventListener("keydown", handleHistoryKeyDown);
+    window.removeEventListener("keydown", handleCameraKeyDown);
+    window.removeEventListener("keydown", handleBookmarkKeyDown);
+    window.removeEventListener("hashchange", handleHashChange);
+    window.removeEventListener("keydown", handleMetricsKeyDown);
 
     // Remove renderer from DOM
     if (container.contains(renderer.domElement)) {
       container.removeChild(renderer.domElement);
     }
 
-    // Dispose all geometries and materials
+    // Rain, street light pool and lights aren't all meshes, the environment
+    // frees them itself
+    environment.dispose();
+
+    // Dispose all remaining geometries and materials
     scene.traverse((object) => {
       if (object instanceof THREE.Mesh) {
         if (object.geometry) object.geometry.dispose();
@@ -311,6 +794,33 @@ export const initThreeScene = (
 
     // Dispose renderer and controls
     renderer.dispose();
-    controls.dispose();
+    cameraController.dispose();
+  };
+
+  return {
+    scene,
+    renderer,
+    cityBuilder,
+    environment,
+    cameraController,
+    bookmarks,
+    performanceTest,
+    editor,
+    history,
+    ready,
+    isReady: () => isReady,
+    setQuality,
+    updateEnvironment,
+    setWeather: (type) => {
+      updateEnvironment({ weather: { enabled: true, type } });
+    },
+    setTimeOfDay: (hours) => {
+      updateEnvironment({ lighting: { timeOfDay: { enabled: true, hours } } });
+    },
+    getQuality: () => currentQuality,
+    getAdaptiveQuality: () => adaptiveController,
+    playCameraPath,
+    on: (event, listener) => events.on(event, listener),
+    dispose,
   };
 };